@@ -1,17 +1,30 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom"
+import AppLayout from "@/components/AppLayout"
+import UploadManagerProvider from "@/components/UploadManagerProvider"
 import Home from "@/pages/Home"
+import Download from "@/pages/Download"
+import History from "@/pages/History"
+import Shares from "@/pages/Shares"
+import SignIn from "@/pages/SignIn"
 import NotFound from "@/pages/NotFound"
 
 function App() {
   return (
     <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Home />} />
-        <Route path="*" element={<NotFound />} />
-      </Routes>
+      <UploadManagerProvider>
+        <Routes>
+          <Route element={<AppLayout />}>
+            <Route path="/" element={<Home />} />
+            <Route path="/d/:uploadId" element={<Download />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/shares" element={<Shares />} />
+            <Route path="/sign-in" element={<SignIn />} />
+            <Route path="*" element={<NotFound />} />
+          </Route>
+        </Routes>
+      </UploadManagerProvider>
     </BrowserRouter>
   )
 }
 
 export default App
-
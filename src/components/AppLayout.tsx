@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react"
+import { Outlet } from "react-router-dom"
+
+import Header from "@/components/Header"
+import Sidebar from "@/components/Sidebar"
+import UploadProgressHUD from "@/components/UploadProgressHUD"
+import { Toaster } from "@/components/ui/sonner"
+import { useUploadManager } from "@/lib/hooks/useUploadManager"
+
+/** How long the HUD stays up after the queue settles so the finish state registers. */
+const HUD_LINGER_MS = 2000
+
+/**
+ * Shared page shell: header, the supported-types sidebar (side panel on desktop, swipe
+ * drawer on mobile) next to the routed content, and the global upload HUD.
+ */
+function AppLayout() {
+  const { isUploading, isWaitingForNetwork, progress } = useUploadManager()
+  /** Keeps the HUD mounted briefly once uploading stops instead of cutting it off at 100%. */
+  const [isHudVisible, setIsHudVisible] = useState(isUploading)
+
+  useEffect(() => {
+    if (isUploading) {
+      setIsHudVisible(true)
+      return
+    }
+    const timer = window.setTimeout(() => setIsHudVisible(false), HUD_LINGER_MS)
+    return () => window.clearTimeout(timer)
+  }, [isUploading])
+
+  return (
+    <div className="relative min-h-screen">
+      <div className="min-h-[100vh] w-full bg-white dark:bg-black transition-colors flex flex-col">
+        <Header />
+        <Toaster position="top-center" closeButton />
+
+        <div className="flex w-full flex-1">
+          <Sidebar />
+          <div className="min-w-0 flex-1">
+            <Outlet />
+          </div>
+        </div>
+      </div>
+
+      {isHudVisible && progress && (
+        <UploadProgressHUD percent={progress.percentage} isUploading={isUploading} isWaitingForNetwork={isWaitingForNetwork} />
+      )}
+    </div>
+  )
+}
+
+export default AppLayout
@@ -1,7 +1,9 @@
 import { useState } from "react"
+import { Link } from "react-router-dom"
 import { Menu, X } from "lucide-react"
 import BrandLockup from "@/components/Brand"
 import ThemeToggle from "@/components/ThemeToggle"
+import { useAuth } from "@/lib/hooks/useAuth"
 
 const navLinks = [
   { label: "How it works", href: "#how-it-works" },
@@ -14,6 +16,9 @@ const navLinks = [
  */
 function Header() {
   const [isOpen, setIsOpen] = useState(false)
+  const { credentials } = useAuth()
+  /** Signing in is optional, so the link doubles as the account page once signed in. */
+  const accountLabel = credentials ? "Account" : "Sign in"
 
   return (
     <header className="relative top-0 z-50 w-full bg-transparent">
@@ -41,6 +46,26 @@ function Header() {
               {link.label}
             </a>
           ))}
+          <Link
+            to="/history"
+            className="metamorphous-regular text-xs md:text-sm uppercase tracking-wide text-black/80 dark:text-white/80 transition-colors hover:text-black dark:hover:text-white"
+          >
+            History
+          </Link>
+          {credentials && (
+            <Link
+              to="/shares"
+              className="metamorphous-regular text-xs md:text-sm uppercase tracking-wide text-black/80 dark:text-white/80 transition-colors hover:text-black dark:hover:text-white"
+            >
+              My shares
+            </Link>
+          )}
+          <Link
+            to="/sign-in"
+            className="metamorphous-regular text-xs md:text-sm uppercase tracking-wide text-black/80 dark:text-white/80 transition-colors hover:text-black dark:hover:text-white"
+          >
+            {accountLabel}
+          </Link>
           <a
             href="#upload"
             className="metamorphous-regular text-xs md:text-sm rounded-full bg-white/70 dark:bg-white/10 px-3 py-1.5 text-black dark:text-white ring-1 ring-black/10 dark:ring-white/10 hover:bg-white/90 dark:hover:bg-white/20 transition"
@@ -64,6 +89,29 @@ function Header() {
                 {link.label}
               </a>
             ))}
+            <Link
+              to="/history"
+              className="block rounded-lg px-3 py-2 text-center text-sm font-medium text-black dark:text-white transition-colors hover:bg-white/70 dark:hover:bg-white/20"
+              onClick={() => setIsOpen(false)}
+            >
+              History
+            </Link>
+            {credentials && (
+              <Link
+                to="/shares"
+                className="block rounded-lg px-3 py-2 text-center text-sm font-medium text-black dark:text-white transition-colors hover:bg-white/70 dark:hover:bg-white/20"
+                onClick={() => setIsOpen(false)}
+              >
+                My shares
+              </Link>
+            )}
+            <Link
+              to="/sign-in"
+              className="block rounded-lg px-3 py-2 text-center text-sm font-medium text-black dark:text-white transition-colors hover:bg-white/70 dark:hover:bg-white/20"
+              onClick={() => setIsOpen(false)}
+            >
+              {accountLabel}
+            </Link>
             <a
               href="#upload"
               className="block rounded-lg px-3 py-2 text-center text-sm font-medium text-black dark:text-white bg-white/70 dark:bg-white/10 ring-1 ring-black/10 dark:ring-white/10 hover:bg-white dark:hover:bg-white/20"
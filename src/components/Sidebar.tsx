@@ -1,14 +1,20 @@
-import { useEffect, useRef, useState } from "react"
-import type { PointerEvent as ReactPointerEvent } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { DragEvent as ReactDragEvent, PointerEvent as ReactPointerEvent } from "react"
 import gsap from "gsap"
 import ScrollTrigger from "gsap/ScrollTrigger"
-import { MoveRight, Search } from "lucide-react"
-import { axios_instance } from "@/lib/api"
-
-// Cached fallback data and memoized values to limit API calls
-const FALLBACK_EXTENSIONS = ["pdf", "docx"]
-let extensionCache: string[] | null = null
-let extensionPromise: Promise<string[]> | null = null
+import { CircleCheck, CircleX, MoveRight, Search } from "lucide-react"
+import { useUploadRules } from "@/lib/hooks/useUploadRules"
+import { categoryOf, FILE_CATEGORIES } from "@/lib/fileCategories"
+import { formatBytes } from "@/lib/format"
+import { fuzzyScore } from "@/lib/fuzzy"
+import { findUploadRuleViolation, maxSizeFor, type UploadRules } from "@/lib/uploadRules"
+
+/** Verdict for a file dropped onto the search box. */
+interface DropCheck {
+  fileName: string
+  /** Why the file would be rejected, or `null` when it's accepted. */
+  violation: string | null
+}
 
 // Enable GSAP's ScrollTrigger once on the client for fading the list header
 if (typeof window !== "undefined") {
@@ -16,11 +22,60 @@ if (typeof window !== "undefined") {
 }
 
 /**
- * Presentation-only component for the search bar and animated extension list.
- * Receives a list of supported file extensions and renders the UI.
+ * Search bar and animated extension list. Receives the shared upload rules, filters the
+ * extensions with fuzzy matching, groups them by category and checks dropped files.
  */
-const SidebarContent = ({ extensions }: { extensions: string[] }) => {
+const SidebarContent = ({ rules }: { rules: UploadRules }) => {
   const listWrapperRef = useRef<HTMLDivElement | null>(null)
+  const [query, setQuery] = useState("")
+  const [dropChecks, setDropChecks] = useState<DropCheck[]>([])
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  // Match the query against each extension and its category, best matches first within a group
+  const groups = useMemo(() => {
+    const matches = rules.extensions
+      .map((extension) => {
+        const category = categoryOf(extension)
+        const extensionScore = fuzzyScore(query, extension)
+        const categoryScore = fuzzyScore(query, category)
+        const score = Math.max(extensionScore ?? -Infinity, categoryScore ?? -Infinity)
+        return { extension, category, score }
+      })
+      .filter((match) => match.score > -Infinity)
+
+    return FILE_CATEGORIES.map((category) => ({
+      category,
+      extensions: matches
+        .filter((match) => match.category === category)
+        .sort((a, b) => b.score - a.score || a.extension.localeCompare(b.extension))
+        .map((match) => match.extension),
+    })).filter((group) => group.extensions.length > 0)
+  }, [query, rules.extensions])
+
+  const handleDragOver = (event: ReactDragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "copy"
+    if (!isDragOver) setIsDragOver(true)
+  }
+
+  const handleDragLeave = (event: ReactDragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragOver(false)
+    }
+  }
+
+  // Check dropped files against the rules without starting an upload
+  const handleDrop = (event: ReactDragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragOver(false)
+    const dropped = Array.from(event.dataTransfer?.files ?? [])
+    setDropChecks(
+      dropped.map((file) => ({
+        fileName: file.name,
+        violation: findUploadRuleViolation({ fileName: file.name, totalSize: file.size }, rules),
+      })),
+    )
+  }
 
   // Fade the top of the list underneath the sticky search bar using ScrollTrigger
   useEffect(() => {
@@ -51,44 +106,79 @@ const SidebarContent = ({ extensions }: { extensions: string[] }) => {
     }, listWrapperRef)
 
     return () => ctx.revert()
-  }, [extensions])
+  }, [groups])
 
   return (
     <>
       {/* Sticky search/filter header */}
       <div className="sticky top-0 z-10 bg-white pb-4">
-        <div className="relative">
+        <div
+          className={`relative rounded-full ${isDragOver ? "ring-2 ring-black ring-offset-2" : ""}`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <span className="absolute left-3 top-1/2 flex h-9 w-9 -translate-y-1/2 items-center justify-center rounded-full border border-black/10 bg-[#EDEDED]">
             <Search className="h-5 w-5 text-gray-600" />
           </span>
           <input
             type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
             placeholder="Check for uploadable files"
+            aria-label="Search supported file types, or drop a file to check it"
             className="w-full rounded-full border border-black bg-[#EDEDED] py-3 pl-14 pr-4 text-sm text-black outline-none transition focus:border-black focus:ring-2 focus:ring-black"
           />
         </div>
+
+        {/* Verdicts for files dropped onto the search box */}
+        <ul className="mt-3 space-y-1 text-xs" aria-live="polite">
+          {dropChecks.map(({ fileName, violation }, index) => (
+            <li key={`${index}-${fileName}`} className={`flex items-start gap-2 ${violation ? "text-red-600" : "text-black/70"}`}>
+              {violation ? (
+                <CircleX className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              ) : (
+                <CircleCheck className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              )}
+              <span className="break-all">{violation ?? `${fileName} can be uploaded`}</span>
+            </li>
+          ))}
+        </ul>
       </div>
 
       {/* Extension list fades under the header as users scroll */}
       <div ref={listWrapperRef} className="relative mt-8">
         <div className="pointer-events-none sidebar-fade-overlay absolute inset-x-0 top-0 h-16 bg-white opacity-0" />
-        <ul className="mt-6 flex flex-col gap-2">
-          {extensions.map((type) => (
-            <li
-              key={type}
-              className="metamorphous-regular py-2 text-left text-sm uppercase tracking-wide text-black"
-            >
-              {type}
-            </li>
-          ))}
-        </ul>
+        {groups.length === 0 && (
+          <p className="mt-6 text-sm text-black/60">No supported file types match “{query.trim()}”.</p>
+        )}
+        {groups.map(({ category, extensions }) => (
+          <section key={category} className="mt-6">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-black/50">{category}</h3>
+            <ul className="mt-2 flex flex-col gap-2">
+              {extensions.map((type) => (
+                <li
+                  key={type}
+                  className="metamorphous-regular flex items-baseline justify-between gap-3 py-2 text-left text-sm uppercase tracking-wide text-black"
+                >
+                  <span>{type}</span>
+                  {rules.extensionLimits[type] !== undefined && (
+                    <span className="text-xs normal-case tracking-normal text-black/60">
+                      up to {formatBytes(maxSizeFor(type, rules))}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
       </div>
     </>
   )
 }
 
 /**
- * Interactive sidebar shell: loads extension data, handles GSAP drawer motion,
+ * Interactive sidebar shell: reads the upload rules, handles GSAP drawer motion,
  * and renders the adaptive layouts for desktop and mobile.
  */
 function Sidebar() {
@@ -98,66 +188,8 @@ function Sidebar() {
   const hintRef = useRef<HTMLSpanElement | null>(null)
   const dragState = useRef({ dragging: false, startX: 0 })
 
-  // Initialize extension list from cache/localStorage before requesting fresh data
-  const [extensions, setExtensions] = useState<string[]>(() => {
-    if (extensionCache) return extensionCache
-
-    if (typeof window !== "undefined") {
-      const stored = window.localStorage.getItem("quickshare.supportedExtensions")
-      if (stored) {
-        try {
-          const parsed = JSON.parse(stored)
-          if (Array.isArray(parsed)) {
-            const sanitized = parsed.filter((item): item is string => typeof item === "string")
-            extensionCache = sanitized
-            return sanitized
-          }
-        } catch (error) {
-          console.warn("Unable to parse cached extensions", error)
-        }
-      }
-    }
-
-    return FALLBACK_EXTENSIONS
-  })
-
-  // Fetch supported extensions once, caching results for later mounts
-  useEffect(() => {
-    if (extensionCache && extensionCache.length) return
-
-    if (!extensionPromise) {
-      extensionPromise = axios_instance({
-        url: "supported-extensions",
-        method: "get",
-      })
-        .then((response) => {
-          const list = Array.isArray(response.data?.extensions)
-            ? response.data.extensions.filter((item: unknown): item is string => typeof item === "string")
-            : []
-
-          const values = list.length ? list : FALLBACK_EXTENSIONS
-          extensionCache = values
-
-          if (typeof window !== "undefined") {
-            window.localStorage.setItem("quickshare.supportedExtensions", JSON.stringify(values))
-          }
-
-          return values
-        })
-        .catch((error) => {
-          console.error("Failed to load supported extensions", error)
-          extensionCache = FALLBACK_EXTENSIONS
-          return FALLBACK_EXTENSIONS
-        })
-        .finally(() => {
-          extensionPromise = null
-        })
-    }
-
-    extensionPromise?.then((values) => {
-      setExtensions(values)
-    })
-  }, [])
+  // Supported extensions and limits come from the shared upload rules store, which caches and fetches them
+  const rules = useUploadRules()
 
   // Animate the arrow hint and its label for the mobile drawer
   useEffect(() => {
@@ -246,7 +278,7 @@ function Sidebar() {
     <>
       <div className="hidden md:block md:w-full md:max-w-sm">
         <aside data-scroll-container className="sticky top-[72px] h-[calc(100vh-72px)] overflow-y-auto bg-white p-6 shadow-xl shadow-black/10">
-          <SidebarContent extensions={extensions} />
+          <SidebarContent rules={rules} />
         </aside>
       </div>
 
@@ -256,7 +288,7 @@ function Sidebar() {
           data-scroll-container
           className="fixed left-0 top-[72px] z-40 h-[calc(100vh-72px)] w-72 overflow-y-auto rounded-tr-3xl rounded-br-3xl bg-white p-6 shadow-2xl shadow-black/20"
         >
-          <SidebarContent extensions={extensions} />
+          <SidebarContent rules={rules} />
         </div>
 
         <div className="fixed left-3 top-1/2 z-50 -translate-y-1/2 flex flex-col items-center space-y-2">
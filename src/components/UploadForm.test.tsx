@@ -0,0 +1,108 @@
+import { act, fireEvent, render, screen } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import { http } from "msw"
+import { Toaster } from "sonner"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import UploadForm from "@/components/UploadForm"
+import UploadManagerProvider from "@/components/UploadManagerProvider"
+import { installNodeFileGlobals } from "@/test/nodeFileGlobals"
+import { API_BASE_URL } from "@/lib/api"
+import { server } from "@/test/server"
+
+function renderUploadForm() {
+  return render(
+    <UploadManagerProvider>
+      <UploadForm />
+      <Toaster />
+    </UploadManagerProvider>
+  )
+}
+
+/** Drops files on the dropzone the way a browser without the entries API would. */
+function dropFiles(...files: File[]) {
+  fireEvent.drop(screen.getByLabelText("File upload dropzone"), {
+    dataTransfer: { files, items: [], types: ["Files"] },
+  })
+}
+
+installNodeFileGlobals()
+
+describe("UploadForm", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("lists files dropped on the dropzone", async () => {
+    renderUploadForm()
+
+    dropFiles(new File(["quarterly numbers"], "report.pdf", { type: "application/pdf" }))
+
+    expect(await screen.findByText("report.pdf")).toBeInTheDocument()
+    expect(screen.getByText("Selected file")).toBeInTheDocument()
+    expect(screen.getByRole("button", { name: "Upload" })).toBeEnabled()
+  })
+
+  it("ignores new files while a queue is uploading", async () => {
+    /** Holds every chunk upload until the test releases it, so the queue stays running. */
+    let releaseChunks!: () => void
+    const chunksHeld = new Promise<void>((resolve) => {
+      releaseChunks = resolve
+    })
+    server.use(
+      http.put(`${API_BASE_URL}/upload/:uploadId/chunk/:chunkNumber`, async () => {
+        await chunksHeld
+      })
+    )
+    renderUploadForm()
+
+    dropFiles(new File(["first batch"], "first.txt", { type: "text/plain" }))
+    // The button renders (disabled) before the drop is read, so wait for the file to be listed
+    await screen.findByText("first.txt")
+    fireEvent.click(screen.getByRole("button", { name: "Upload" }))
+    expect(await screen.findByRole("button", { name: "Cancel" })).toBeInTheDocument()
+    expect(screen.getByRole("button", { name: /click to select files/ })).toBeDisabled()
+
+    dropFiles(new File(["second batch"], "second.txt", { type: "text/plain" }))
+    // Let a wrongly accepted drop be read and listed before checking
+    await act(async () => {})
+    expect(screen.queryByText("second.txt")).not.toBeInTheDocument()
+
+    releaseChunks()
+    expect(await screen.findByLabelText("Copy download link for first.txt", {}, { timeout: 5000 })).toBeInTheDocument()
+    expect(screen.queryByText("second.txt")).not.toBeInTheDocument()
+  })
+
+  it("explains why a dropped file can't be uploaded", async () => {
+    renderUploadForm()
+
+    dropFiles(new File(["MZ"], "virus.exe", { type: "application/octet-stream" }))
+
+    expect(await screen.findByText(/“\.exe” files aren't supported \(virus\.exe\)/)).toBeInTheDocument()
+    await userEvent.click(screen.getByRole("button", { name: "Upload" }))
+    expect(screen.queryByLabelText("Copy download link for virus.exe")).not.toBeInTheDocument()
+  })
+
+  it("copies the finished link through the textarea fallback without the Clipboard API", async () => {
+    // jsdom has no Clipboard API; plain events keep user-event from installing its stub
+    expect(navigator.clipboard).toBeUndefined()
+    // ...nor `execCommand`, which the fallback relies on
+    const execCommand = vi.fn(() => true)
+    document.execCommand = execCommand
+    renderUploadForm()
+
+    dropFiles(new File(["meeting notes"], "notes.txt", { type: "text/plain" }))
+    await screen.findByText("notes.txt")
+    fireEvent.click(screen.getByRole("button", { name: "Upload" }))
+
+    fireEvent.click(await screen.findByLabelText("Copy download link for notes.txt", {}, { timeout: 5000 }))
+
+    expect(await screen.findByText("Download link copied to your clipboard")).toBeInTheDocument()
+    expect(execCommand).toHaveBeenCalledWith("copy")
+    expect(document.querySelector("textarea")).toBeNull()
+  })
+})
@@ -1,13 +1,93 @@
-import { useId, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from "react"
+import { useEffect, useId, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { CloudUpload, Copy, File as FileIcon } from "lucide-react"
+import { CloudUpload, Copy, File as FileIcon, FileArchive, FolderUp, History, Pause, Play, Square, WifiOff } from "lucide-react"
 import { toast } from "sonner"
 
-import { uploadFormSchema, type UploadFormValues } from "@/lib/schema"
-import { useResumableUploader, DEFAULT_CHUNK_SIZE } from "@/lib/hooks/useResumableUploader"
+import { toApiError } from "@/lib/api"
+import { MAX_DOWNLOAD_LIMIT, uploadFormSchema, type UploadFormValues } from "@/lib/schema"
+import type { ShareLinkPolicy, UploadItemStatus, UploadProgress } from "@/lib/hooks/useResumableUploader"
+import { useUploadManager } from "@/lib/hooks/useUploadManager"
+import { useUploadRules } from "@/lib/hooks/useUploadRules"
+import { copyText } from "@/lib/clipboard"
+import { filesFromDataTransfer, relativePathOf } from "@/lib/fileTree"
+import { LINK_EXPIRY_OPTIONS } from "@/lib/linkOptions"
+import {
+  deleteUploadSession,
+  fingerprintFile,
+  firstMissingChunk,
+  getUploadSession,
+  type StoredUploadSession,
+} from "@/lib/uploadSessionStore"
 import { Progress } from "@/components/ui/progress"
-import UploadProgressHUD from "@/components/UploadProgressHUD"
+
+/** Human-friendly labels for each queue status; `ready` covers files not yet submitted. */
+const STATUS_LABELS: Record<UploadItemStatus | "ready", string> = {
+  ready: "Ready",
+  queued: "Queued",
+  uploading: "Uploading",
+  completed: "Done",
+  failed: "Failed",
+  aborted: "Cancelled",
+}
+
+/** Link lifetime preselected in the form. */
+const DEFAULT_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+
+/** Empty inputs mean "not set" rather than an empty string or `NaN`. */
+const optionalNumber = (value: string) => (value === "" ? undefined : Number(value))
+const optionalString = (value: string) => (value === "" ? undefined : value)
+
+/** One-line summary of the rules attached to a finished link. */
+function describeLinkPolicy(policy: ShareLinkPolicy) {
+  const parts = [
+    policy.expiresAt ? `Expires ${new Date(policy.expiresAt).toLocaleString()}` : "Never expires",
+    policy.maxDownloads === null
+      ? "Unlimited downloads"
+      : `${policy.maxDownloads} ${policy.maxDownloads === 1 ? "download" : "downloads"} max`,
+  ]
+  if (policy.passwordProtected) parts.push("Password protected")
+  return parts.join(" · ")
+}
+
+/**
+ * Finished share link with a copy button and a summary of its access rules.
+ */
+function ShareLinkField({
+  label,
+  downloadUrl,
+  policy,
+  onCopy,
+}: {
+  label: string
+  downloadUrl: string
+  policy: ShareLinkPolicy | null
+  onCopy: (downloadUrl: string) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-black/70 dark:text-white/70">Upload complete! Share your link below:</p>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={downloadUrl}
+          readOnly
+          aria-label={`Download link for ${label}`}
+          className="flex-1 truncate rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm text-black dark:text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-black/40 dark:focus:ring-white/40"
+        />
+        <button
+          type="button"
+          onClick={() => onCopy(downloadUrl)}
+          className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-white/10 text-black dark:text-white transition hover:bg-black/5 dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/60 dark:focus-visible:ring-white/60"
+          aria-label={`Copy download link for ${label}`}
+        >
+          <Copy className="h-4 w-4" />
+        </button>
+      </div>
+      {policy && <p className="text-xs text-black/60 dark:text-white/60">{describeLinkPolicy(policy)}</p>}
+    </div>
+  )
+}
 
 /**
  * Drag-and-drop upload form that validates file metadata with React Hook Form + Zod
@@ -15,12 +95,38 @@ import UploadProgressHUD from "@/components/UploadProgressHUD"
  */
 function UploadForm() {
   const fileInputRef = useRef<HTMLInputElement | null>(null)
-  /** Selected files from the user (first entry drives validation metadata). */
-  const [files, setFiles] = useState<File[]>([])
+  /** Second hidden input configured as a folder picker. */
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
+
+  /**
+   * App-wide upload queue for initiating, chunking, and completing uploads. It lives above
+   * the router, so a queue started here keeps running if the user navigates away.
+   */
+  const {
+    uploadFromFormData,
+    items: uploadItems,
+    progress,
+    error: uploadError,
+    isUploading,
+    isPaused,
+    isWaitingForNetwork,
+    pause: pauseUpload,
+    resume: resumeUpload,
+    cancel: cancelUpload,
+    reset: resetUploadState,
+  } = useUploadManager()
+
+  /**
+   * Selected files from the user; each one becomes its own upload session. Restored from
+   * the queue when the form remounts so progress and links stay visible.
+   */
+  const [files, setFiles] = useState<File[]>(() => uploadItems.flatMap((item) => item.entries ?? [item.file]))
   /** Flag that toggles dropzone styling while a drag operation is active. */
   const [isDragActive, setIsDragActive] = useState(false)
-  /** Stores the download URL returned after a successful upload, if available. */
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null)
+  /** Unfinished sessions found for the selected files, keyed by file fingerprint. */
+  const [resumableSessions, setResumableSessions] = useState<Record<string, StoredUploadSession>>({})
+  /** Guards against stale session lookups when the selection changes quickly. */
+  const selectionTokenRef = useRef(0)
   /** Error message prompting the user to choose a file before submitting. */
   const [fileSelectionError, setFileSelectionError] = useState<string | null>(null)
   /** Unique identifier used to associate external controls with the hidden form element. */
@@ -31,28 +137,48 @@ function UploadForm() {
    * with the backend contract defined in `uploadFormSchema`.
    */
   const {
+    register,
     handleSubmit,
     setValue,
     reset,
     trigger,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<UploadFormValues>({
     resolver: zodResolver(uploadFormSchema),
     defaultValues: {
-      fileName: "",
-      totalSize: 0,
-      totalChunks: 0,
+      files: files.map((file) => ({ fileName: file.name, totalSize: file.size })),
+      expiresIn: DEFAULT_EXPIRY_SECONDS,
+      maxDownloads: undefined,
+      password: undefined,
+      encrypt: false,
+      bundle: false,
     },
   })
 
-  /** Handles the API calls for initiating, chunking, and completing the upload. */
-  const {
-    uploadFromFormData,
-    progress,
-    error: uploadError,
-    isUploading,
-    reset: resetUploadState,
-  } = useResumableUploader({ chunkSize: DEFAULT_CHUNK_SIZE })
+  /** Supported extensions and size limits; selected files are re-checked when they change. */
+  const uploadRules = useUploadRules()
+  const hasSelection = files.length > 0
+
+  useEffect(() => {
+    if (hasSelection) void trigger("files")
+  }, [hasSelection, trigger, uploadRules])
+
+  /** Zipping needs several files and a server that accepts `.zip` (assumed until the real list is known). */
+  const canBundle =
+    files.length > 1 && (uploadRules.source === "fallback" || uploadRules.extensions.includes("zip"))
+  const isBundling = canBundle && watch("bundle")
+  /** The queue item for a zip bundle, if one was started. */
+  const bundleItem = uploadItems.find((item) => item.entries !== null)
+
+  /** Status badge text, accounting for pause, lost connectivity and the finalise step. */
+  const describeStatus = (status: UploadItemStatus | "ready", itemProgress?: UploadProgress | null) => {
+    const isActive = status === "uploading" || status === "queued"
+    if (isPaused && isActive) return "Paused"
+    if (isWaitingForNetwork && isActive) return "Waiting for network"
+    if (status === "uploading" && itemProgress && itemProgress.percentage >= 100) return "Finalising"
+    return STATUS_LABELS[status]
+  }
 
   /** Formatter for presenting byte progress in a compact, human-friendly style. */
   const compactNumberFormatter = useMemo(
@@ -60,24 +186,38 @@ function UploadForm() {
     []
   )
 
-  /** Copy the generated download link to the clipboard for easy sharing. */
-  const handleCopyDownloadLink = async () => {
-    if (!downloadUrl) return
-
+  /** Current time, ticking once a second while any file waits for a retry. */
+  const [now, setNow] = useState(() => Date.now())
+  const hasPendingRetry = uploadItems.some((item) => item.nextRetryAt !== null && item.nextRetryAt > now)
+
+  useEffect(() => {
+    if (!hasPendingRetry) return
+    const tick = () => setNow(Date.now())
+    /** Refresh right away so the first countdown isn't measured from a stale clock. */
+    const kickoff = window.setTimeout(tick, 0)
+    const timer = window.setInterval(tick, 1000)
+    return () => {
+      window.clearTimeout(kickoff)
+      window.clearInterval(timer)
+    }
+  }, [hasPendingRetry])
+
+  /** Number of selected files with an unfinished session that can be resumed. */
+  const resumableCount = Object.keys(resumableSessions).length
+
+  /** Validation messages for the list itself and for each rejected file. */
+  const fileFieldErrors = errors.files?.message
+    ? [errors.files.message]
+    : Array.isArray(errors.files)
+      ? errors.files
+          .map((entry) => entry?.fileName?.message ?? entry?.totalSize?.message)
+          .filter((message): message is string => Boolean(message))
+      : []
+
+  /** Copy a generated download link to the clipboard for easy sharing. */
+  const handleCopyDownloadLink = async (downloadUrl: string) => {
     try {
-      if (navigator.clipboard?.writeText) {
-        await navigator.clipboard.writeText(downloadUrl)
-      } else {
-        const textArea = document.createElement("textarea")
-        textArea.value = downloadUrl
-        textArea.style.position = "fixed"
-        textArea.style.opacity = "0"
-        document.body.appendChild(textArea)
-        textArea.focus()
-        textArea.select()
-        document.execCommand("copy")
-        document.body.removeChild(textArea)
-      }
+      await copyText(downloadUrl)
       toast.success("Download link copied to your clipboard")
     } catch (copyError) {
       if (import.meta.env.DEV) {
@@ -87,41 +227,79 @@ function UploadForm() {
     }
   }
 
+  /** Look up persisted sessions for the selection so the user can resume them. */
+  const loadResumableSessions = async (selectedFiles: File[]) => {
+    const token = ++selectionTokenRef.current
+    const entries = await Promise.all(
+      selectedFiles.map(async (file) => {
+        try {
+          const session = await getUploadSession(file)
+          return session && session.totalSize === file.size ? ([fingerprintFile(file), session] as const) : null
+        } catch {
+          return null
+        }
+      })
+    )
+    if (token !== selectionTokenRef.current) return
+    setResumableSessions(
+      Object.fromEntries(entries.filter((entry): entry is readonly [string, StoredUploadSession] => entry !== null))
+    )
+  }
+
+  /** Discard persisted sessions so the selected files upload from scratch. */
+  const handleStartOver = async () => {
+    await Promise.all(files.map((file) => deleteUploadSession(file).catch(() => undefined)))
+    setResumableSessions({})
+  }
+
   /** Programmatically open the file picker when the user clicks the button. */
   const handleSelectFile = () => {
+    if (isUploading) return
     fileInputRef.current?.click()
   }
 
+  /** Open the folder picker; every file inside is queued with its relative path. */
+  const handleSelectFolder = () => {
+    if (isUploading) return
+    folderInputRef.current?.click()
+  }
+
   /**
    * Normalise files coming from either the input element or drag-and-drop, then
-   * populate both local state and the form metadata fields.
+   * populate both local state and the form metadata fields. Ignored while a queue is
+   * running, since resetting the shared queue would abort it.
    */
-  const handleFilesUpdate = (incoming: FileList | null) => {
+  const handleFilesUpdate = (incoming: File[] | FileList | null) => {
+    if (isUploading) return
+
     if (!incoming?.length) {
+      selectionTokenRef.current++
       setFiles([])
+      setResumableSessions({})
       reset()
       resetUploadState()
-      setDownloadUrl(null)
       setFileSelectionError(null)
       return
     }
 
     const selectedFiles = Array.from(incoming)
     setFiles(selectedFiles)
-    setDownloadUrl(null)
+    setResumableSessions({})
+    resetUploadState()
     setFileSelectionError(null)
-
-    const primaryFile = selectedFiles[0]
-    if (!primaryFile) return
-
-    const computedTotalChunks = Math.max(1, Math.ceil(primaryFile.size / DEFAULT_CHUNK_SIZE))
-
-    setValue("fileName", primaryFile.name, { shouldDirty: true, shouldTouch: true })
-    setValue("totalSize", primaryFile.size, { shouldDirty: true, shouldTouch: true })
-    setValue("totalChunks", computedTotalChunks, { shouldDirty: true, shouldTouch: true })
-
-    // Ensure validation runs after all fields have been updated to avoid transient schema errors.
-    void trigger(["fileName", "totalSize", "totalChunks"])
+    void loadResumableSessions(selectedFiles)
+
+    setValue(
+      "files",
+      selectedFiles.map((file) => ({
+        fileName: file.name,
+        totalSize: file.size,
+      })),
+      { shouldDirty: true, shouldTouch: true }
+    )
+
+    // Ensure validation runs after every entry has been updated to avoid transient schema errors.
+    void trigger("files")
   }
 
   /** Update files when the user chooses them via the hidden input. */
@@ -133,15 +311,15 @@ function UploadForm() {
   const handleDragEnter = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     event.stopPropagation()
-    setIsDragActive(true)
+    if (!isUploading) setIsDragActive(true)
   }
 
   /** Maintain dropzone highlight while dragging over the component. */
   const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     event.stopPropagation()
-    event.dataTransfer.dropEffect = "copy"
-    if (!isDragActive) setIsDragActive(true)
+    event.dataTransfer.dropEffect = isUploading ? "none" : "copy"
+    if (!isDragActive && !isUploading) setIsDragActive(true)
   }
 
   /** Remove dropzone highlight when the drag leaves the component bounds. */
@@ -153,26 +331,40 @@ function UploadForm() {
     }
   }
 
-  /** Accept dropped files, sync the hidden input, and run validation. */
+  /** Accept dropped files and folders, sync the hidden input, and run validation. */
   const handleDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     event.stopPropagation()
     setIsDragActive(false)
 
-    const droppedFiles = event.dataTransfer?.files
-    if (!droppedFiles?.length) return
-
-    handleFilesUpdate(droppedFiles)
-
-    if (fileInputRef.current) {
-      try {
-        const dataTransfer = new DataTransfer()
-        Array.from(droppedFiles).forEach((file) => dataTransfer.items.add(file))
-        fileInputRef.current.files = dataTransfer.files
-      } catch {
-        // DataTransfer may not be constructible in every environment
-      }
-    }
+    if (isUploading || !event.dataTransfer?.files.length) return
+
+    // Folder entries have to be captured before the event handler returns
+    filesFromDataTransfer(event.dataTransfer)
+      .then((droppedFiles) => {
+        if (!droppedFiles.length) {
+          toast.error("The dropped folder is empty.")
+          return
+        }
+
+        handleFilesUpdate(droppedFiles)
+
+        if (fileInputRef.current) {
+          try {
+            const dataTransfer = new DataTransfer()
+            droppedFiles.forEach((file) => dataTransfer.items.add(file))
+            fileInputRef.current.files = dataTransfer.files
+          } catch {
+            // DataTransfer may not be constructible in every environment
+          }
+        }
+      })
+      .catch((readError) => {
+        if (import.meta.env.DEV) {
+          console.error("Failed to read dropped items", readError)
+        }
+        toast.error("Couldn't read the dropped folder. Please try again.")
+      })
   }
 
   /**
@@ -190,22 +382,45 @@ function UploadForm() {
     files.forEach((file) => formData.append("files", file))
 
     try {
-      const outcome = await uploadFromFormData({
+      const results = await uploadFromFormData({
         formData,
-        metadata: {
-          file_name: values.fileName,
-          total_size: values.totalSize,
-          total_chunks: values.totalChunks,
+        resume: true,
+        sharePolicy: {
+          expires_in: values.expiresIn,
+          max_downloads: values.maxDownloads,
+          password: values.password,
         },
+        encrypt: values.encrypt && !isBundling,
+        bundle: isBundling,
       })
-
-      setDownloadUrl(outcome.downloadUrl)
-      toast.success("Upload complete! Your download link is ready.")
+      setResumableSessions({})
+      const failures = results.flatMap((result) => (result.status === "rejected" ? [toApiError(result.reason)] : []))
+
+      if (failures.length === 0) {
+        toast.success(
+          results.length > 1
+            ? "Uploads complete! Your download links are ready."
+            : isBundling
+              ? "Upload complete! Your zip link is ready."
+              : "Upload complete! Your download link is ready."
+        )
+      } else if (failures.length < results.length) {
+        toast.warning(`${failures.length} of ${results.length} files failed to upload.`, {
+          description: failures[0].recovery,
+        })
+      } else {
+        toast.error(failures[0].message, { description: failures[0].recovery })
+      }
     } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        toast.info("Upload cancelled. Unfinished files can be resumed later.")
+        return
+      }
       if (import.meta.env.DEV) {
         console.error("Upload failed", error)
       }
-      toast.error("Upload failed. Please try again.")
+      const apiError = toApiError(error)
+      toast.error(apiError.message, { description: apiError.recovery })
     }
   })
 
@@ -213,98 +428,338 @@ function UploadForm() {
     <div className="mt-6 md:mt-10 flex flex-col items-center gap-6 md:items-start animate-fade-in-up">
       {/* Dropzone */}
       <div
-        className={`flex w-full max-w-md flex-col items-center justify-center rounded-[10px] border border-black dark:border-white bg-white dark:bg-black p-6 text-center transition ${isDragActive ? "border-dashed" : ""}`}
+        className={`flex w-full max-w-md flex-col items-center justify-center rounded-[10px] border border-black dark:border-white bg-white dark:bg-black p-6 text-center transition ${isDragActive ? "border-dashed" : ""} ${isUploading ? "cursor-not-allowed opacity-60" : ""}`}
         onDragEnter={handleDragEnter}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
         aria-label="File upload dropzone"
+        aria-disabled={isUploading}
       >
         {files.length === 0 ? (
           <>
             <CloudUpload className="h-[200px] w-[200px] text-black dark:text-white animate-float" strokeWidth={1.2} />
             <span className="mt-4 text-xl font-semibold text-black dark:text-white">Drag &amp; Drop</span>
-            <p className="mt-2 text-sm text-black/70 dark:text-white/70">Allowing users to drag and drop files</p>
+            <p className="mt-2 text-sm text-black/70 dark:text-white/70">Drop files or whole folders; folder structure is kept</p>
           </>
         ) : (
           <div className="flex flex-col items-center gap-2 text-black dark:text-white">
             <FileIcon className="h-16 w-16 text-black dark:text-white" strokeWidth={1.4} />
-            <span className="text-lg font-semibold">Selected file</span>
-            <p className="max-w-full break-words text-sm text-black/80 dark:text-white/80">{files[0].name}</p>
-            {files.length > 1 && (
-              <p className="text-xs text-black/60 dark:text-white/60">+ {files.length - 1} more file(s)</p>
-            )}
+            <span className="text-lg font-semibold">
+              {files.length === 1 ? "Selected file" : `${files.length} files selected`}
+            </span>
+            <p className="max-w-full break-words text-sm text-black/80 dark:text-white/80">
+              {compactNumberFormatter.format(files.reduce((sum, file) => sum + file.size, 0))}B in total
+            </p>
           </div>
         )}
       </div>
 
       <form id={formId} className="hidden" onSubmit={onSubmit}>
         {/* Hidden input keeps the native file picker accessible for non-drag uploads */}
-        <input ref={fileInputRef} type="file" className="hidden" onChange={handleInputChange} />
+        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInputChange} disabled={isUploading} />
+        {/* `webkitdirectory` isn't a typed React prop, so the folder picker flag is set on the node */}
+        <input
+          ref={(input) => {
+            folderInputRef.current = input
+            input?.setAttribute("webkitdirectory", "")
+          }}
+          type="file"
+          className="hidden"
+          onChange={handleInputChange}
+          disabled={isUploading}
+        />
       </form>
 
+      {/* Share link options */}
+      {files.length > 0 && (
+        <fieldset
+          disabled={isUploading}
+          className="w-full max-w-md space-y-3 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-sm text-black dark:text-white shadow-sm"
+        >
+          <legend className="px-1 text-xs font-medium uppercase tracking-wide text-black/60 dark:text-white/60">Link options</legend>
+          <label className="flex items-center justify-between gap-3">
+            <span>Expires after</span>
+            <select
+              form={formId}
+              {...register("expiresIn", { setValueAs: optionalNumber })}
+              className="rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm"
+            >
+              {LINK_EXPIRY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+              <option value="">Never</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            <span>Download limit</span>
+            <input
+              form={formId}
+              type="number"
+              min={1}
+              max={MAX_DOWNLOAD_LIMIT}
+              placeholder="Unlimited"
+              {...register("maxDownloads", { setValueAs: optionalNumber })}
+              className="w-32 rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm"
+            />
+          </label>
+          {errors.maxDownloads && <p className="text-xs text-red-600">{errors.maxDownloads.message}</p>}
+          <label className="flex items-center justify-between gap-3">
+            <span>Password</span>
+            <input
+              form={formId}
+              type="password"
+              autoComplete="new-password"
+              placeholder="Optional"
+              {...register("password", { setValueAs: optionalString })}
+              className="w-48 rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm"
+            />
+          </label>
+          {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
+          {canBundle && (
+            <label className="flex items-start gap-3">
+              <input form={formId} type="checkbox" {...register("bundle")} className="mt-1" />
+              <span className="space-y-1">
+                <span className="block">Send as one zip file</span>
+                <span className="block text-xs text-black/60 dark:text-white/60">
+                  Recipients get a single link. The archive is built in your browser while it uploads, so it can't be resumed after a reload.
+                </span>
+              </span>
+            </label>
+          )}
+          <label className="flex items-start gap-3">
+            <input form={formId} type="checkbox" {...register("encrypt")} disabled={isBundling} className="mt-1" />
+            <span className="space-y-1">
+              <span className="block">Encrypt in my browser</span>
+              <span className="block text-xs text-black/60 dark:text-white/60">
+                {isBundling
+                  ? "Not available for zip files yet. Send the files separately to encrypt them."
+                  : "The server only stores encrypted data. The key is part of the share link, so anyone with the full link can open the file and nobody without it can."}
+              </span>
+            </span>
+          </label>
+          {errors.expiresIn && <p className="text-xs text-red-600">{errors.expiresIn.message}</p>}
+        </fieldset>
+      )}
+
       {/* Validation messages */}
       <div className="w-full max-w-md text-sm text-red-600 space-y-1">
-        {errors.fileName?.message && <p>{errors.fileName.message}</p>}
-        {!errors.fileName?.message && (errors.totalSize?.message || errors.totalChunks?.message) && (
-          <p>{errors.totalSize?.message ?? errors.totalChunks?.message}</p>
-        )}
+        {fileFieldErrors.map((message) => (
+          <p key={message}>{message}</p>
+        ))}
         {fileSelectionError && <p>{fileSelectionError}</p>}
         {uploadError && <p>{uploadError}</p>}
       </div>
 
-      {/* Upload progress and result */}
-      {(progress || downloadUrl) && (
-        <div className="w-full max-w-md space-y-4 text-sm text-black dark:text-white" aria-live="polite">
-          {progress && (
-            <div className="space-y-2 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 shadow-sm">
-              <div className="flex items-center justify-between text-xs font-medium uppercase tracking-wide text-black/60 dark:text-white/60">
-                <span>{progress.percentage >= 100 ? "Finalising" : "Uploading"}</span>
-                <span>{Math.round(progress.percentage)}%</span>
-              </div>
-              <Progress value={progress.percentage} className="h-3" />
+      {/* Offer to resume unfinished sessions for the selected files */}
+      {resumableCount > 0 && !isUploading && (
+        <div className="w-full max-w-md space-y-3 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-sm text-black dark:text-white shadow-sm">
+          <div className="flex items-start gap-2">
+            <History className="mt-0.5 h-4 w-4 shrink-0" />
+            <p>
+              {resumableCount === 1
+                ? "We found an unfinished upload for this file. It will resume where it left off."
+                : `We found ${resumableCount} unfinished uploads. They will resume where they left off.`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleStartOver}
+            className="text-xs font-medium underline underline-offset-2 text-black/70 dark:text-white/70 hover:text-black dark:hover:text-white"
+          >
+            Start over instead
+          </button>
+        </div>
+      )}
+
+      {/* Connectivity lost mid-upload; the queue continues on its own once it returns */}
+      {isUploading && isWaitingForNetwork && (
+        <div
+          role="status"
+          className="flex w-full max-w-md items-start gap-3 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-sm text-black dark:text-white shadow-sm"
+        >
+          <WifiOff className="mt-0.5 h-4 w-4 shrink-0" />
+          <div className="space-y-1">
+            <p className="font-medium">Waiting for network</p>
+            <p className="text-xs text-black/70 dark:text-white/70">
+              You appear to be offline. Your upload is saved and will continue automatically once the connection is back.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Overall queue progress */}
+      {progress && progress.totalFiles > 1 && (
+        <div className="w-full max-w-md space-y-2 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-sm text-black dark:text-white shadow-sm" aria-live="polite">
+          <div className="flex items-center justify-between text-xs font-medium uppercase tracking-wide text-black/60 dark:text-white/60">
+            <span>
+              {progress.completedFiles} / {progress.totalFiles} files
+            </span>
+            <span>{Math.round(progress.percentage)}%</span>
+          </div>
+          <Progress value={progress.percentage} className="h-3" />
+        </div>
+      )}
+
+      {/* Zip bundle status, progress and result */}
+      {bundleItem && (
+        <div className="w-full max-w-md space-y-2 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-sm text-black dark:text-white shadow-sm" aria-live="polite">
+          <div className="flex items-center justify-between gap-3">
+            <span className="flex min-w-0 items-center gap-2 font-medium">
+              <FileArchive className="h-4 w-4 shrink-0" />
+              <span className="truncate" title={bundleItem.file.name}>{bundleItem.file.name}</span>
+            </span>
+            <span className="shrink-0 text-xs font-medium uppercase tracking-wide text-black/60 dark:text-white/60">
+              {describeStatus(bundleItem.status, bundleItem.progress)}
+            </span>
+          </div>
+          <p className="text-xs text-black/60 dark:text-white/60">{bundleItem.entries?.length ?? 0} files, zipped in your browser</p>
+          {bundleItem.progress && bundleItem.status !== "completed" && (
+            <>
+              <Progress value={bundleItem.progress.percentage} className="h-3" />
               <div className="flex items-center justify-between text-xs text-black/60 dark:text-white/60">
-                <span>Uploaded</span>
+                <span>Zipped and uploaded</span>
                 <span>
-                  {compactNumberFormatter.format(progress.uploadedBytes)} / {compactNumberFormatter.format(progress.totalBytes)}
+                  {compactNumberFormatter.format(bundleItem.progress.uploadedBytes)} / {compactNumberFormatter.format(bundleItem.progress.totalBytes)}
                 </span>
               </div>
-            </div>
+            </>
           )}
-          {downloadUrl && (
-            <div className="space-y-3 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 text-black dark:text-white shadow-sm">
-              <p className="text-sm font-medium">Upload complete! Share your link below:</p>
-              <div className="flex items-center gap-2">
-                <input
-                  type="text"
-                  value={downloadUrl}
-                  readOnly
-                  className="flex-1 truncate rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm text-black dark:text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-black/40 dark:focus:ring-white/40"
-                />
-                <button
-                  type="button"
-                  onClick={handleCopyDownloadLink}
-                  className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-white/10 text-black dark:text-white transition hover:bg-black/5 dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/60 dark:focus-visible:ring-white/60"
-                  aria-label="Copy download link"
-                >
-                  <Copy className="h-4 w-4" />
-                </button>
-              </div>
-            </div>
+          {bundleItem.error && bundleItem.status !== "completed" && (
+            <p className="text-xs text-red-600">{bundleItem.error}</p>
+          )}
+          {bundleItem.recovery && bundleItem.status === "failed" && (
+            <p className="text-xs text-black/70 dark:text-white/70">{bundleItem.recovery}</p>
+          )}
+          {bundleItem.downloadUrl && (
+            <ShareLinkField
+              label={bundleItem.file.name}
+              downloadUrl={bundleItem.downloadUrl}
+              policy={bundleItem.policy}
+              onCopy={handleCopyDownloadLink}
+            />
           )}
         </div>
       )}
 
+      {/* Per-file status, progress and result */}
+      {files.length > 0 && (
+        <ul className="w-full max-w-md space-y-4 text-sm text-black dark:text-white" aria-live="polite">
+          {files.map((file, index) => {
+            const item = uploadItems.find((entry) => entry.file === file)
+            /** Files sent inside the zip have no queue item of their own and follow the archive's status. */
+            const bundledIn = bundleItem?.entries?.includes(file) ? bundleItem : undefined
+            const status = item?.status ?? bundledIn?.status ?? "ready"
+            const itemProgress = item?.progress
+            const storedSession = resumableSessions[fingerprintFile(file)]
+
+            return (
+              <li
+                key={`${file.name}-${file.size}-${file.lastModified}-${index}`}
+                className="space-y-2 rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-black p-4 shadow-sm"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="truncate font-medium" title={relativePathOf(file) || file.name}>
+                    {relativePathOf(file) || file.name}
+                  </span>
+                  <span className="shrink-0 text-xs font-medium uppercase tracking-wide text-black/60 dark:text-white/60">
+                    {bundledIn ? `In zip · ${describeStatus(status, bundledIn.progress)}` : describeStatus(status, itemProgress)}
+                  </span>
+                </div>
+                {!item && storedSession && (
+                  <p className="text-xs text-black/60 dark:text-white/60">
+                    Resumable from chunk {firstMissingChunk(storedSession)} of {storedSession.totalChunks}
+                  </p>
+                )}
+                {item?.resumedFromChunk && status === "uploading" && (
+                  <p className="text-xs text-black/60 dark:text-white/60">
+                    Resumed from chunk {item.resumedFromChunk} of {itemProgress?.totalChunks ?? "?"}
+                  </p>
+                )}
+                {item && item.retryCount > 0 && status === "uploading" && (
+                  <p className="text-xs text-black/60 dark:text-white/60">
+                    {item.retryCount === 1 ? "1 retry" : `${item.retryCount} retries`}
+                    {item.nextRetryAt !== null && item.nextRetryAt > now
+                      ? ` · next attempt in ${Math.ceil((item.nextRetryAt - now) / 1000)}s`
+                      : ""}
+                  </p>
+                )}
+                {itemProgress && status !== "completed" && (
+                  <>
+                    <Progress value={itemProgress.percentage} className="h-3" />
+                    <div className="flex items-center justify-between text-xs text-black/60 dark:text-white/60">
+                      <span>Uploaded</span>
+                      <span>
+                        {compactNumberFormatter.format(itemProgress.uploadedBytes)} / {compactNumberFormatter.format(itemProgress.totalBytes)}
+                      </span>
+                    </div>
+                  </>
+                )}
+                {item?.error && status !== "completed" && (
+                  <p className="text-xs text-red-600">{item.error}</p>
+                )}
+                {item?.recovery && status === "failed" && (
+                  <p className="text-xs text-black/70 dark:text-white/70">{item.recovery}</p>
+                )}
+                {item?.downloadUrl && (
+                  <ShareLinkField
+                    label={file.name}
+                    downloadUrl={item.downloadUrl}
+                    policy={item.policy}
+                    onCopy={handleCopyDownloadLink}
+                  />
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
       {/* Actions */}
       <div className="flex w-full max-w-md flex-col items-center gap-4 md:flex-row md:items-center md:justify-between">
-        <button
-          type="button"
-          onClick={handleSelectFile}
-          className="inline-flex items-center gap-2 rounded-[15px] bg-[#E3E3E3] dark:bg-white/10 px-4 py-2 text-sm font-medium text-black dark:text-white transition hover:bg-[#d8d8d8] dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40"
-        >
-          <CloudUpload className="h-5 w-5" strokeWidth={1.5} />
-          Or,  click to select a file
-        </button>
+        <div className="flex flex-col items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSelectFile}
+            disabled={isUploading}
+            className="inline-flex items-center gap-2 rounded-[15px] bg-[#E3E3E3] dark:bg-white/10 px-4 py-2 text-sm font-medium text-black dark:text-white transition hover:bg-[#d8d8d8] dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <CloudUpload className="h-5 w-5" strokeWidth={1.5} />
+            Or,  click to select files
+          </button>
+          <button
+            type="button"
+            onClick={handleSelectFolder}
+            disabled={isUploading}
+            className="inline-flex items-center gap-2 text-xs font-medium text-black/70 dark:text-white/70 underline-offset-2 hover:underline hover:text-black dark:hover:text-white disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:no-underline"
+          >
+            <FolderUp className="h-4 w-4" strokeWidth={1.5} />
+            Select a folder
+          </button>
+        </div>
+
+        {isUploading && (
+          <>
+            <button
+              type="button"
+              onClick={isPaused ? resumeUpload : pauseUpload}
+              className="inline-flex items-center gap-2 rounded-[15px] border border-black/15 dark:border-white/20 px-4 py-2 text-sm font-medium text-black dark:text-white transition hover:bg-black/5 dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40"
+            >
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              {isPaused ? "Resume" : "Pause"}
+            </button>
+            <button
+              type="button"
+              onClick={cancelUpload}
+              className="inline-flex items-center gap-2 rounded-[15px] border border-black/15 dark:border-white/20 px-4 py-2 text-sm font-medium text-black dark:text-white transition hover:bg-black/5 dark:hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40"
+            >
+              <Square className="h-4 w-4" />
+              Cancel
+            </button>
+          </>
+        )}
 
         <button
           type="submit"
@@ -313,7 +768,7 @@ function UploadForm() {
           aria-disabled={isSubmitting || isUploading || files.length === 0}
           className="inline-flex items-center justify-center rounded-[15px] border border-black dark:border-white px-5 py-2 text-sm font-semibold text-black dark:text-white transition hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40 disabled:cursor-not-allowed disabled:border-black/40 dark:disabled:border-white/30 disabled:text-black/50 dark:disabled:text-white/50 disabled:hover:bg-transparent dark:disabled:hover:bg-transparent disabled:hover:text-black/50 dark:disabled:hover:text-white/50"
         >
-          {isSubmitting || isUploading ? "Uploading…" : "Upload"}
+          {isPaused ? "Paused" : isUploading && isWaitingForNetwork ? "Waiting for network" : isSubmitting || isUploading ? "Uploading…" : resumableCount > 0 ? "Resume upload" : "Upload"}
         </button>
       </div>
     </div>
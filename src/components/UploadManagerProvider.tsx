@@ -0,0 +1,15 @@
+import type { ReactNode } from "react"
+
+import { useResumableUploader } from "@/lib/hooks/useResumableUploader"
+import { UploadManagerContext } from "@/lib/hooks/useUploadManager"
+
+/**
+ * Owns the upload queue above the router so sessions outlive the page that started them.
+ */
+function UploadManagerProvider({ children }: { children: ReactNode }) {
+  const manager = useResumableUploader()
+
+  return <UploadManagerContext.Provider value={manager}>{children}</UploadManagerContext.Provider>
+}
+
+export default UploadManagerProvider
@@ -6,12 +6,14 @@ export interface UploadProgressHUDProps {
   percent: number | null | undefined
   /** Whether an upload is currently active. */
   isUploading: boolean
+  /** Whether the upload is suspended until connectivity returns. */
+  isWaitingForNetwork?: boolean
 }
 
 /**
  * Fixed, top-right progress HUD for global upload feedback with GSAP animations.
  */
-export default function UploadProgressHUD({ percent, isUploading }: UploadProgressHUDProps) {
+export default function UploadProgressHUD({ percent, isUploading, isWaitingForNetwork = false }: UploadProgressHUDProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const barRef = useRef<HTMLDivElement | null>(null)
 
@@ -42,7 +44,9 @@ export default function UploadProgressHUD({ percent, isUploading }: UploadProgre
       const tl = gsap.timeline()
       tl.to(containerRef.current, { scale: 1.02, duration: 0.12, ease: "power1.out" })
         .to(containerRef.current, { scale: 1, duration: 0.12, ease: "power1.out" })
-      return () => tl.kill()
+      return () => {
+        tl.kill()
+      }
     }
   }, [isUploading, safePercent])
 
@@ -54,7 +58,7 @@ export default function UploadProgressHUD({ percent, isUploading }: UploadProgre
       aria-label="Upload progress"
     >
       <div className="flex items-center justify-between text-xs font-medium">
-        <span>{safePercent >= 100 ? "Finalising" : "Uploading"}</span>
+        <span>{isWaitingForNetwork ? "Waiting for network" : safePercent >= 100 ? "Finalising" : "Uploading"}</span>
         <span>{safePercent}%</span>
       </div>
       <div
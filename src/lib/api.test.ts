@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { MOCK_ACCOUNT } from "../mocks/mockBackend"
+import { server } from "../test/server"
+import { API_BASE_URL, listShares, requestAccessToken, toApiError } from "./api"
+import { getAuthCredentials, setAuthCredentials } from "./authStore"
+
+/** Method and path of every request the stub backend saw, in order. */
+let requests: string[] = []
+const recordRequest = ({ request }: { request: Request }) => {
+	requests.push(`${request.method} ${new URL(request.url).pathname.replace(new URL(API_BASE_URL).pathname, "")}`)
+}
+
+beforeEach(() => {
+	requests = []
+	server.events.on("request:start", recordRequest)
+})
+
+afterEach(() => {
+	server.events.removeAllListeners()
+	setAuthCredentials(null)
+})
+
+/**
+ * Signs in to the stub backend, then swaps in an access token it doesn't know, as if the
+ * real one had lapsed without the client noticing. The refresh token still works.
+ */
+async function signInWithStaleAccessToken(refreshToken?: string) {
+	const tokens = await requestAccessToken(MOCK_ACCOUNT)
+	setAuthCredentials({
+		kind: "token",
+		accessToken: "lapsed-access-token",
+		refreshToken: refreshToken ?? tokens.refresh_token ?? null,
+		expiresAt: null,
+		email: MOCK_ACCOUNT.email,
+	})
+	requests = []
+}
+
+describe("api", () => {
+	it("refreshes the access token after a 401 and replays the request", async () => {
+		await signInWithStaleAccessToken()
+
+		const { shares } = await listShares()
+
+		expect(shares).toEqual([])
+		expect(requests).toEqual(["GET /shares", "POST /auth/refresh", "GET /shares"])
+		expect(getAuthCredentials()).toMatchObject({ kind: "token", email: MOCK_ACCOUNT.email })
+		expect(getAuthCredentials()).not.toMatchObject({ accessToken: "lapsed-access-token" })
+	})
+
+	it("shares one refresh between requests that fail together", async () => {
+		await signInWithStaleAccessToken()
+
+		await Promise.all([listShares(), listShares(), listShares()])
+
+		expect(requests.filter((request) => request === "POST /auth/refresh")).toHaveLength(1)
+		expect(requests.filter((request) => request === "GET /shares")).toHaveLength(6)
+	})
+
+	it("signs out when the refresh token is turned down", async () => {
+		await signInWithStaleAccessToken("revoked-refresh-token")
+
+		const failure = await listShares().catch((error: unknown) => error)
+
+		expect(toApiError(failure)).toMatchObject({ code: "unauthorized", status: 401 })
+		expect(requests).toEqual(["GET /shares", "POST /auth/refresh"])
+		expect(getAuthCredentials()).toBeNull()
+	})
+})
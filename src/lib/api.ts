@@ -3,15 +3,33 @@ import axios from "axios"
 import {
     uploadInitiateRequestSchema,
     uploadInitiateResponseSchema,
+    uploadCompleteRequestSchema,
     uploadCompleteResponseSchema,
+    uploadStatusResponseSchema,
+    uploadErrorResponseSchema,
+    uploadChecksumMismatchResponseSchema,
+    downloadMetadataResponseSchema,
+    supportedExtensionsResponseSchema,
+    uploadLimitsResponseSchema,
+    signInRequestSchema,
+    tokenRefreshRequestSchema,
+    authTokenResponseSchema,
+    shareSchema,
+    shareListResponseSchema,
+    shareRevokeRequestSchema,
+    shareRevokeResponseSchema,
+    shareExtendRequestSchema,
     type UploadInitiateRequest,
+    type UploadCompleteRequest,
+    type SignInRequest,
 } from "./schema"
+import { credentialsFromTokens, getAuthCredentials, setAuthCredentials } from "./authStore"
 
 /**
  * Resolves the API base URL from environment variables, defaulting to the local v1 endpoint.
  * Trailing slashes are trimmed to make URL concatenation predictable.
  */
-const API_BASE_URL = (
+export const API_BASE_URL = (
     import.meta.env.VITE_API_BASE_URL ??
     import.meta.env.VITE_MOCK_BASE_URL ??
     "http://localhost:8000/v1"
@@ -26,6 +44,251 @@ export const axios_instance = axios.create({
     baseURL: API_BASE_URL,
 })
 
+/**
+ * Header carrying an API key for clients that authenticate without signing in.
+ */
+export const API_KEY_HEADER = "X-API-Key"
+
+/**
+ * Access tokens this close to expiry are refreshed before a request goes out rather than after it fails.
+ */
+const TOKEN_REFRESH_MARGIN_MS = 30_000
+
+let refreshPromise: Promise<string | null> | null = null
+
+/**
+ * Exchanges the stored refresh token for a new access token. Concurrent callers share one
+ * request, so parallel chunks that hit an expired token trigger a single refresh.
+ *
+ * @returns The new access token, or `null` when there is nothing to refresh with or the refresh failed.
+ */
+function refreshAccessToken(): Promise<string | null> {
+    const credentials = getAuthCredentials()
+    if (credentials?.kind !== "token" || !credentials.refreshToken) return Promise.resolve(null)
+    const { email, refreshToken } = credentials
+
+    // Plain axios keeps the refresh call out of the interceptors below
+    refreshPromise ??= axios
+        .post(`${API_BASE_URL}/auth/refresh`, tokenRefreshRequestSchema.parse({ refresh_token: refreshToken }))
+        .then((response) => {
+            const tokens = authTokenResponseSchema.parse(response.data)
+            const current = getAuthCredentials()
+            // The user may have signed out or in again while the refresh was in flight
+            if (current?.kind !== "token" || current.refreshToken !== refreshToken) return null
+            setAuthCredentials(credentialsFromTokens(tokens, email, refreshToken))
+            return tokens.access_token
+        })
+        .catch((error) => {
+            // A refresh token the server turned down won't work later either; network failures keep the session
+            if (axios.isAxiosError(error) && [400, 401, 403].includes(error.response?.status ?? 0)) {
+                setAuthCredentials(null)
+            }
+            return null
+        })
+        .finally(() => {
+            refreshPromise = null
+        })
+    return refreshPromise
+}
+
+// Attach the current credentials to every request, chunk uploads included, so a token refreshed
+// mid-upload is picked up by the next chunk. Anonymous visitors send no credentials at all.
+axios_instance.interceptors.request.use(async (config) => {
+    let credentials = getAuthCredentials()
+    if (
+        credentials?.kind === "token" &&
+        credentials.expiresAt !== null &&
+        credentials.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS
+    ) {
+        await refreshAccessToken()
+        credentials = getAuthCredentials()
+    }
+
+    if (credentials?.kind === "token") {
+        config.headers.set("Authorization", `Bearer ${credentials.accessToken}`)
+    } else if (credentials?.kind === "apiKey") {
+        config.headers.set(API_KEY_HEADER, credentials.apiKey)
+    }
+    return config
+})
+
+// Replay a request once after a 401 if the access token can be refreshed
+axios_instance.interceptors.response.use(undefined, async (error: unknown) => {
+    if (!axios.isAxiosError(error) || error.response?.status !== 401 || !error.config) throw error
+    const credentials = getAuthCredentials()
+    if (credentials?.kind !== "token") throw error
+
+    // Another request may already have refreshed the token while this one was in flight
+    const sentWithCurrentToken = error.config.headers.get("Authorization") === `Bearer ${credentials.accessToken}`
+    const accessToken = sentWithCurrentToken ? await refreshAccessToken() : credentials.accessToken
+    if (!accessToken) throw error
+
+    error.config.headers.set("Authorization", `Bearer ${accessToken}`)
+    // Plain axios skips these interceptors, so a replay that gets another 401 fails for good
+    return axios.request(error.config)
+})
+
+/**
+ * Failure categories the client tells apart, derived from the HTTP status of a failed request.
+ */
+export type ApiErrorCode =
+    | "network"
+    | "invalid_request"
+    | "unauthorized"
+    | "forbidden"
+    | "not_found"
+    | "session_expired"
+    | "file_too_large"
+    | "unsupported_type"
+    | "chunk_out_of_range"
+    | "checksum_mismatch"
+    | "rate_limited"
+    | "quota_exceeded"
+    | "server_error"
+    | "unknown"
+
+/**
+ * What went wrong and what the user can do about it, for each error category.
+ */
+const API_ERROR_COPY: Record<ApiErrorCode, { message: string; recovery: string }> = {
+    network: {
+        message: "Couldn't reach the server.",
+        recovery: "Check your connection and try again. Finished chunks are kept, so the upload picks up where it stopped.",
+    },
+    invalid_request: {
+        message: "The server rejected the request.",
+        recovery: "Check the file and link options, then try again.",
+    },
+    unauthorized: {
+        message: "You need to sign in to do this.",
+        recovery: "Sign in and try again.",
+    },
+    forbidden: {
+        message: "You don't have permission to do this.",
+        recovery: "Check you're signed in to the right account.",
+    },
+    not_found: {
+        message: "The server couldn't find this upload.",
+        recovery: "Start the upload again.",
+    },
+    session_expired: {
+        message: "This upload session has expired.",
+        recovery: "Start over to upload the file in a new session.",
+    },
+    file_too_large: {
+        message: "The file is larger than the server allows.",
+        recovery: "Check the size limits in the sidebar, or split the file into smaller parts.",
+    },
+    unsupported_type: {
+        message: "The server doesn't accept this file type.",
+        recovery: "Check the supported types in the sidebar, or send the file inside a zip.",
+    },
+    chunk_out_of_range: {
+        message: "The server rejected a chunk outside the file's range.",
+        recovery: "Start over so the file is split again with the server's current settings.",
+    },
+    checksum_mismatch: {
+        message: "The uploaded file didn't match the original.",
+        recovery: "Start over to upload it again. If it keeps happening, check your connection.",
+    },
+    rate_limited: {
+        message: "Too many requests right now.",
+        recovery: "Wait a minute, then try again.",
+    },
+    quota_exceeded: {
+        message: "You've run out of upload storage.",
+        recovery: "Remove old shares to free up space, then try again.",
+    },
+    server_error: {
+        message: "The server ran into a problem.",
+        recovery: "Try again in a few minutes.",
+    },
+    unknown: {
+        message: "Something went wrong.",
+        recovery: "Try again. If it keeps failing, pick the file again.",
+    },
+}
+
+/**
+ * HTTP statuses with a dedicated error category; other 4xx responses are `invalid_request`
+ * and other 5xx responses are `server_error`.
+ */
+const STATUS_ERROR_CODES: Record<number, ApiErrorCode> = {
+    401: "unauthorized",
+    403: "forbidden",
+    404: "not_found",
+    410: "session_expired",
+    413: "file_too_large",
+    415: "unsupported_type",
+    416: "chunk_out_of_range",
+    429: "rate_limited",
+    507: "quota_exceeded",
+}
+
+/**
+ * A failed API call, classified so the UI can explain it and suggest a next step.
+ */
+export class ApiError extends Error {
+    readonly code: ApiErrorCode
+    /** HTTP status of the response, or `null` when none arrived. */
+    readonly status: number | null
+    /** Error text from the backend's `{error}` envelope, when it sent one. */
+    readonly detail: string | null
+    /** What the user can do to recover. */
+    readonly recovery: string
+
+    constructor(
+        code: ApiErrorCode,
+        options: { status?: number | null; detail?: string | null; message?: string; recovery?: string; cause?: unknown } = {},
+    ) {
+        super(options.message ?? API_ERROR_COPY[code].message, { cause: options.cause })
+        this.name = "ApiError"
+        this.code = code
+        this.status = options.status ?? null
+        this.detail = options.detail ?? null
+        this.recovery = options.recovery ?? API_ERROR_COPY[code].recovery
+    }
+}
+
+/**
+ * Classifies anything thrown by the API helpers. Backend `{error}` envelopes are kept as the
+ * error's `detail`; errors raised outside HTTP keep their own message under the `unknown` code.
+ *
+ * @param error - A rejected request, or any other failure from the upload flow.
+ * @returns The error as an {@link ApiError}; one that already is one is returned as-is.
+ */
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error
+    if (!axios.isAxiosError(error)) {
+        return new ApiError("unknown", {
+            message: error instanceof Error ? error.message : undefined,
+            cause: error,
+        })
+    }
+
+    const status = error.response?.status
+    if (status === undefined) return new ApiError("network", { cause: error })
+
+    const envelope = uploadErrorResponseSchema.safeParse(error.response?.data)
+    const detail = envelope.success ? envelope.data.error : null
+    const code =
+        getMismatchedChunks(error) !== null
+            ? "checksum_mismatch"
+            : (STATUS_ERROR_CODES[status] ?? (status >= 500 ? "server_error" : "invalid_request"))
+    return new ApiError(code, {
+        status,
+        detail,
+        // Generic rejections are only actionable with the server's own explanation
+        message: code === "invalid_request" && detail ? detail : undefined,
+        cause: error,
+    })
+}
+
+/**
+ * Header carrying the hex-encoded SHA-256 of a chunk body.
+ */
+export const CHUNK_CHECKSUM_HEADER = "X-Chunk-SHA256"
+
 /**
  * Validates and initiates a new resumable upload session with the backend service.
  *
@@ -46,32 +309,201 @@ export interface UploadChunkParams {
     uploadId: string
     chunkNumber: number
     chunk: Blob
+    /** Hex-encoded SHA-256 of `chunk`, verified by the backend on arrival. */
+    checksum?: string
     signal?: AbortSignal
+    /** Receives the number of bytes of `chunk` sent so far. */
+    onUploadProgress?: (loadedBytes: number) => void
 }
 
 /**
  * Streams an individual file chunk to the API for the supplied upload session.
  *
- * @param params - Upload context including the `uploadId`, sequential `chunkNumber`, binary data, and optional abort signal.
+ * @param params - Upload context including the `uploadId`, sequential `chunkNumber`, binary data, optional checksum, abort signal and progress callback.
  */
-export async function uploadChunk({ uploadId, chunkNumber, chunk, signal }: UploadChunkParams) {
+export async function uploadChunk({ uploadId, chunkNumber, chunk, checksum, signal, onUploadProgress }: UploadChunkParams) {
     await axios_instance.put(`upload/${uploadId}/chunk/${chunkNumber}`, chunk, {
         headers: {
             "Content-Type": "application/octet-stream",
+            ...(checksum ? { [CHUNK_CHECKSUM_HEADER]: checksum } : {}),
         },
         signal,
+        onUploadProgress: onUploadProgress ? (event) => onUploadProgress(event.loaded) : undefined,
     })
 }
 
+/**
+ * Asks the backend which chunks it already holds for an upload session.
+ *
+ * @param uploadId - Unique identifier for the resumable upload session.
+ * @param signal - Optional abort signal to cancel the status request.
+ * @returns Parsed payload listing the chunk numbers the server has persisted.
+ */
+export async function getUploadStatus(uploadId: string, signal?: AbortSignal) {
+    const response = await axios_instance.get(`upload/${uploadId}/status`, { signal })
+    return uploadStatusResponseSchema.parse(response.data)
+}
+
 /**
  * Finalises the upload process once every chunk has been successfully persisted.
  *
  * @param uploadId - Unique identifier for the resumable upload session.
+ * @param payload - Whole-file checksum that must satisfy the `uploadCompleteRequestSchema` contract.
  * @param signal - Optional abort signal to cancel the completion request.
  * @returns Parsed payload containing the server-generated download URL.
  */
-export async function completeUploadSession(uploadId: string, signal?: AbortSignal) {
-    const response = await axios_instance.post(`upload/${uploadId}/complete`, undefined, { signal })
+export async function completeUploadSession(uploadId: string, payload: UploadCompleteRequest, signal?: AbortSignal) {
+    const body = uploadCompleteRequestSchema.parse(payload)
+    const response = await axios_instance.post(`upload/${uploadId}/complete`, body, { signal })
     return uploadCompleteResponseSchema.parse(response.data)
 }
 
+/**
+ * Extracts the chunk numbers from a checksum-mismatch error returned by the completion endpoint.
+ *
+ * @param error - Anything thrown by {@link completeUploadSession}.
+ * @returns The mismatched chunk numbers, or `null` when the error is not a checksum mismatch.
+ */
+export function getMismatchedChunks(error: unknown): number[] | null {
+    if (!axios.isAxiosError(error)) return null
+    const parsed = uploadChecksumMismatchResponseSchema.safeParse(error.response?.data)
+    return parsed.success ? parsed.data.mismatched_chunks : null
+}
+
+/**
+ * Whether a chunk upload was rejected because the bytes that arrived don't match the
+ * declared checksum, so sending the same chunk again is worthwhile.
+ *
+ * @param error - Anything thrown by {@link uploadChunk}.
+ * @param chunkNumber - The chunk that was being uploaded.
+ */
+export function isChunkChecksumRejection(error: unknown, chunkNumber: number): boolean {
+    if (!axios.isAxiosError(error) || error.response?.status !== 400) return false
+    const mismatchedChunks = getMismatchedChunks(error)
+    if (mismatchedChunks) return mismatchedChunks.includes(chunkNumber)
+    // Backends that don't list the chunk still name the reason in the error envelope
+    const envelope = uploadErrorResponseSchema.safeParse(error.response.data)
+    return envelope.success && /checksum mismatch/i.test(envelope.data.error)
+}
+
+/**
+ * Fetches the public metadata of a shared file.
+ *
+ * @param uploadId - Identifier from the share link.
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload with the file name, size, content type and expiry.
+ */
+export async function getDownloadMetadata(uploadId: string, signal?: AbortSignal) {
+    const response = await axios_instance.get(`download/${uploadId}`, { signal })
+    return downloadMetadataResponseSchema.parse(response.data)
+}
+
+/**
+ * Header carrying the password of a password-protected share link.
+ */
+export const SHARE_PASSWORD_HEADER = "X-Share-Password"
+
+/**
+ * Options for {@link downloadFile}.
+ */
+export interface DownloadFileParams {
+    uploadId: string
+    /** Password for protected links; the server answers 403 when it is missing or wrong. */
+    password?: string
+    signal?: AbortSignal
+    /** Receives the bytes received so far and the total, when the server announces it. */
+    onDownloadProgress?: (loadedBytes: number, totalBytes: number | undefined) => void
+}
+
+/**
+ * Opens the contents of a shared file as a byte stream, so large files (and encrypted ones,
+ * which are decrypted chunk by chunk) never have to sit in memory as a single buffer.
+ *
+ * @param params - Share identifier, optional link password, abort signal and progress callback.
+ * @returns The response body as a `ReadableStream`.
+ */
+export async function downloadFile({ uploadId, password, signal, onDownloadProgress }: DownloadFileParams) {
+    const response = await axios_instance.get<ReadableStream<Uint8Array>>(`download/${uploadId}/content`, {
+        adapter: "fetch",
+        responseType: "stream",
+        headers: password ? { [SHARE_PASSWORD_HEADER]: password } : undefined,
+        signal,
+        onDownloadProgress: onDownloadProgress
+            ? (event) => onDownloadProgress(event.loaded, event.total)
+            : undefined,
+    })
+    return response.data
+}
+
+/**
+ * Signs in with an email and password.
+ *
+ * @param payload - Credentials that must satisfy the `signInRequestSchema` contract.
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload with the access token, plus a refresh token and lifetime when the server issues them.
+ */
+export async function requestAccessToken(payload: SignInRequest, signal?: AbortSignal) {
+    const body = signInRequestSchema.parse(payload)
+    const response = await axios_instance.post("auth/login", body, { signal })
+    return authTokenResponseSchema.parse(response.data)
+}
+
+/**
+ * Lists the shares the signed-in user created.
+ *
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload with every share, newest first, including revoked and expired ones.
+ */
+export async function listShares(signal?: AbortSignal) {
+    const response = await axios_instance.get("shares", { signal })
+    return shareListResponseSchema.parse(response.data)
+}
+
+/**
+ * Withdraws one or more share links so they can no longer be downloaded.
+ *
+ * @param uploadIds - Shares to revoke.
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload listing the shares that were actually revoked.
+ */
+export async function revokeShares(uploadIds: string[], signal?: AbortSignal) {
+    const body = shareRevokeRequestSchema.parse({ upload_ids: uploadIds })
+    const response = await axios_instance.post("shares/revoke", body, { signal })
+    return shareRevokeResponseSchema.parse(response.data)
+}
+
+/**
+ * Gives a share link a new lifetime, counted from now.
+ *
+ * @param uploadId - Share to extend.
+ * @param expiresIn - New lifetime in seconds, within the same bounds as a new link.
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns The share with its updated expiry.
+ */
+export async function extendShare(uploadId: string, expiresIn: number, signal?: AbortSignal) {
+    const body = shareExtendRequestSchema.parse({ expires_in: expiresIn })
+    const response = await axios_instance.post(`shares/${uploadId}/extend`, body, { signal })
+    return shareSchema.parse(response.data)
+}
+
+/**
+ * Lists the file extensions the backend accepts.
+ *
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload with lower-case extensions, without leading dots.
+ */
+export async function getSupportedExtensions(signal?: AbortSignal) {
+    const response = await axios_instance.get("supported-extensions", { signal })
+    return supportedExtensionsResponseSchema.parse(response.data)
+}
+
+/**
+ * Fetches the size limits the backend enforces on uploads.
+ *
+ * @param signal - Optional abort signal to cancel the request.
+ * @returns Parsed payload with the global and per-extension size caps in bytes.
+ */
+export async function getUploadLimits(signal?: AbortSignal) {
+    const response = await axios_instance.get("limits", { signal })
+    return uploadLimitsResponseSchema.parse(response.data)
+}
@@ -0,0 +1,116 @@
+import type { AuthTokenResponse } from "./schema"
+
+const STORAGE_KEY = "quickshare.auth"
+
+/**
+ * How requests are authenticated. Without credentials the client uploads anonymously.
+ */
+export type AuthCredentials =
+	| {
+			kind: "token"
+			accessToken: string
+			/** Exchanged for a new access token when the server answers 401; `null` if the server issued none. */
+			refreshToken: string | null
+			/** Epoch milliseconds when the access token lapses, if the server said. */
+			expiresAt: number | null
+			/** Account the token was issued for, shown in the header. */
+			email: string
+	  }
+	| {
+			kind: "apiKey"
+			apiKey: string
+	  }
+
+let currentCredentials: AuthCredentials | null | undefined
+const listeners = new Set<() => void>()
+
+function notifyListeners() {
+	listeners.forEach((listener) => listener())
+}
+
+/**
+ * Reads the credentials saved by a previous visit, dropping anything malformed.
+ */
+function readPersistedCredentials(): AuthCredentials | null {
+	if (typeof window === "undefined") return null
+	try {
+		const stored = window.localStorage.getItem(STORAGE_KEY)
+		if (!stored) return null
+		const parsed = JSON.parse(stored) as Partial<AuthCredentials>
+		if (parsed.kind === "apiKey" && typeof parsed.apiKey === "string") {
+			return { kind: "apiKey", apiKey: parsed.apiKey }
+		}
+		if (parsed.kind === "token" && typeof parsed.accessToken === "string") {
+			return {
+				kind: "token",
+				accessToken: parsed.accessToken,
+				refreshToken: typeof parsed.refreshToken === "string" ? parsed.refreshToken : null,
+				expiresAt: typeof parsed.expiresAt === "number" ? parsed.expiresAt : null,
+				email: typeof parsed.email === "string" ? parsed.email : "",
+			}
+		}
+	} catch (error) {
+		console.warn("Unable to parse saved credentials", error)
+	}
+	return null
+}
+
+/**
+ * Credentials attached to API requests, or `null` when signed out.
+ */
+export function getAuthCredentials(): AuthCredentials | null {
+	if (currentCredentials === undefined) currentCredentials = readPersistedCredentials()
+	return currentCredentials
+}
+
+/**
+ * Registers a listener for sign-in, sign-out and token refreshes; returns the matching cleanup.
+ */
+export function subscribeToAuthCredentials(listener: () => void): () => void {
+	listeners.add(listener)
+	return () => {
+		listeners.delete(listener)
+	}
+}
+
+/**
+ * Replaces the credentials (`null` signs out) and persists them for the next visit.
+ */
+export function setAuthCredentials(next: AuthCredentials | null) {
+	if (typeof window !== "undefined") {
+		if (next) {
+			window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+		} else {
+			window.localStorage.removeItem(STORAGE_KEY)
+		}
+	}
+	currentCredentials = next
+	notifyListeners()
+}
+
+// Follow sign-ins, sign-outs and refreshed tokens from other tabs, so a rotated refresh token isn't reused
+if (typeof window !== "undefined") {
+	window.addEventListener("storage", (event) => {
+		if (event.key !== STORAGE_KEY) return
+		currentCredentials = readPersistedCredentials()
+		notifyListeners()
+	})
+}
+
+/**
+ * Token credentials for a login or refresh response. A refresh that doesn't rotate the
+ * refresh token keeps using `previousRefreshToken`.
+ */
+export function credentialsFromTokens(
+	tokens: AuthTokenResponse,
+	email: string,
+	previousRefreshToken: string | null,
+): AuthCredentials {
+	return {
+		kind: "token",
+		accessToken: tokens.access_token,
+		refreshToken: tokens.refresh_token ?? previousRefreshToken,
+		expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : null,
+		email,
+	}
+}
@@ -0,0 +1,88 @@
+/**
+ * Inclusive chunk size range the backend accepts.
+ */
+export interface ChunkSizeBounds {
+	min: number
+	max: number
+}
+
+/**
+ * Chunk size range accepted by the upload API (1 MB – 50 MB).
+ */
+export const DEFAULT_CHUNK_SIZE_BOUNDS: ChunkSizeBounds = {
+	min: 1024 * 1024,
+	max: 50 * 1024 * 1024,
+}
+
+/**
+ * How long a single chunk should take on the wire. Long enough to amortise request
+ * overhead, short enough that a dropped connection only costs a few seconds of work.
+ */
+const TARGET_CHUNK_DURATION_MS = 4000
+
+/**
+ * Chunk sizes are rounded down to this granularity to keep them readable in logs.
+ */
+const CHUNK_SIZE_STEP = 256 * 1024
+
+/**
+ * Weight given to the newest sample in the moving average.
+ */
+const SMOOTHING_FACTOR = 0.3
+
+const STORAGE_KEY = "quickshare.bandwidthEstimate"
+
+/** Per-chunk throughput estimate in bytes per millisecond, shared across uploads. */
+let throughputEstimate: number | null = null
+
+/**
+ * Reads the persisted estimate once so the first upload of a visit can use it.
+ */
+function loadPersistedEstimate(): number | null {
+	if (typeof window === "undefined") return null
+	const stored = Number(window.localStorage.getItem(STORAGE_KEY))
+	return Number.isFinite(stored) && stored > 0 ? stored : null
+}
+
+/**
+ * Falls back to the Network Information API's downlink hint (Mbit/s) when no chunk has been timed yet.
+ */
+function connectionHint(): number | null {
+	if (typeof navigator === "undefined") return null
+	const { connection } = navigator as Navigator & { connection?: { downlink?: number } }
+	const downlink = connection?.downlink
+	return typeof downlink === "number" && downlink > 0 ? (downlink * 1_000_000) / 8 / 1000 : null
+}
+
+/**
+ * Feeds a finished chunk's timing into the moving average.
+ */
+export function recordChunkTiming(bytes: number, durationMs: number) {
+	if (bytes <= 0 || durationMs <= 0) return
+	const sample = bytes / durationMs
+	const previous = throughputEstimate ?? loadPersistedEstimate()
+	throughputEstimate = previous === null ? sample : previous + SMOOTHING_FACTOR * (sample - previous)
+
+	if (typeof window !== "undefined") {
+		window.localStorage.setItem(STORAGE_KEY, String(throughputEstimate))
+	}
+}
+
+/**
+ * Current per-chunk throughput estimate in bytes per millisecond, if anything is known.
+ */
+export function estimateThroughput(): number | null {
+	throughputEstimate ??= loadPersistedEstimate()
+	return throughputEstimate ?? connectionHint()
+}
+
+/**
+ * Picks a chunk size that should take roughly {@link TARGET_CHUNK_DURATION_MS} to send,
+ * clamped to the server's bounds. Uses `fallback` until anything has been measured.
+ */
+export function chooseChunkSize(fallback: number, bounds: ChunkSizeBounds = DEFAULT_CHUNK_SIZE_BOUNDS): number {
+	const throughput = estimateThroughput()
+	const ideal = throughput === null ? fallback : throughput * TARGET_CHUNK_DURATION_MS
+	const stepped = Math.max(CHUNK_SIZE_STEP, Math.floor(ideal / CHUNK_SIZE_STEP) * CHUNK_SIZE_STEP)
+	return Math.min(bounds.max, Math.max(bounds.min, stepped))
+}
@@ -0,0 +1,87 @@
+import { computeChecksum } from "./hashing"
+
+/**
+ * A hashing job: a single chunk, a whole file, or a whole file as it looks once encrypted.
+ */
+export type ChecksumJob =
+	| { kind: "chunk" | "file"; blob: Blob }
+	| { kind: "encrypted-file"; blob: Blob; key: CryptoKey; chunkSize: number }
+
+/**
+ * Message sent to the checksum worker.
+ */
+export type ChecksumRequest = ChecksumJob & { id: number }
+
+/**
+ * Message returned by the checksum worker, carrying either the hex digest or an error.
+ */
+export type ChecksumResponse = { id: number; digest: string } | { id: number; error: string }
+
+let worker: Worker | null = null
+let requestSequence = 0
+const pendingRequests = new Map<number, { resolve: (digest: string) => void; reject: (error: Error) => void }>()
+
+/**
+ * Lazily spins up the shared checksum worker; returns `null` where workers aren't available.
+ */
+function getWorker(): Worker | null {
+	if (worker) return worker
+	if (typeof Worker === "undefined") return null
+
+	worker = new Worker(new URL("./workers/checksum.worker.ts", import.meta.url), { type: "module" })
+	worker.addEventListener("message", (event: MessageEvent<ChecksumResponse>) => {
+		const pending = pendingRequests.get(event.data.id)
+		if (!pending) return
+		pendingRequests.delete(event.data.id)
+		if ("digest" in event.data) {
+			pending.resolve(event.data.digest)
+		} else {
+			pending.reject(new Error(event.data.error))
+		}
+	})
+	worker.addEventListener("error", (event) => {
+		const error = new Error(event.message || "Checksum worker failed")
+		pendingRequests.forEach((pending) => pending.reject(error))
+		pendingRequests.clear()
+		worker?.terminate()
+		worker = null
+	})
+	return worker
+}
+
+/**
+ * Runs a hashing job on the worker, or inline when no worker can be created.
+ */
+function runChecksum(job: ChecksumJob): Promise<string> {
+	const activeWorker = getWorker()
+	if (!activeWorker) {
+		return computeChecksum(job)
+	}
+
+	return new Promise<string>((resolve, reject) => {
+		const id = ++requestSequence
+		pendingRequests.set(id, { resolve, reject })
+		activeWorker.postMessage({ ...job, id } satisfies ChecksumRequest)
+	})
+}
+
+/**
+ * Hex-encoded SHA-256 of a single chunk, sent alongside the chunk so the server can verify it.
+ */
+export function digestChunk(chunk: Blob): Promise<string> {
+	return runChecksum({ kind: "chunk", blob: chunk })
+}
+
+/**
+ * Hex-encoded SHA-256 of the whole file, sent when completing the session.
+ */
+export function digestFile(file: Blob): Promise<string> {
+	return runChecksum({ kind: "file", blob: file })
+}
+
+/**
+ * Hex-encoded SHA-256 of the file as the server receives it from an encrypted upload.
+ */
+export function digestEncryptedFile(file: Blob, key: CryptoKey, chunkSize: number): Promise<string> {
+	return runChecksum({ kind: "encrypted-file", blob: file, key, chunkSize })
+}
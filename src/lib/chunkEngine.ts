@@ -0,0 +1,430 @@
+import { isChunkChecksumRejection, uploadChunk } from "./api"
+import { digestChunk } from "./checksum"
+import type { AdaptiveLimiter } from "./concurrency"
+import { computeRetryDelay, isRetryableError, DEFAULT_RETRY_POLICY, type RetryPolicy } from "./retryPolicy"
+
+/**
+ * Settings shared by file and stream transfers.
+ */
+interface ChunkTransferOptions {
+	uploadId: string
+	/** Shared gate deciding how many chunks may be on the wire. */
+	limiter: AdaptiveLimiter
+	signal: AbortSignal
+	retryPolicy?: RetryPolicy
+	/** Bytes confirmed or in flight changed. */
+	onProgress?: (uploadedBytes: number) => void
+	/** A chunk was accepted by the server after `durationMs` on the wire. */
+	onChunkComplete?: (chunkNumber: number, bytes: number, durationMs: number) => void
+	/** Failed attempt number `attempt` of a chunk will be retried after `delayMs`. */
+	onRetry?: (chunkNumber: number, attempt: number, delayMs: number, error: unknown) => void
+}
+
+/**
+ * Configuration for a single file's chunk transfer.
+ */
+export interface ChunkEngineOptions extends ChunkTransferOptions {
+	file: Blob
+	chunkSize: number
+	totalChunks: number
+	/** Chunk numbers the server already holds; they are never sent. */
+	completedChunks: Iterable<number>
+	/** Turns a chunk's bytes into what goes on the wire (e.g. encrypts it); must be deterministic. */
+	transformChunk?: (chunkNumber: number, chunk: Blob) => Promise<Blob>
+}
+
+/**
+ * Configuration for uploading a file that is produced while it uploads.
+ */
+export interface StreamChunkEngineOptions extends ChunkTransferOptions {
+	/** The file's bytes; its total length isn't known until the stream ends. */
+	source: ReadableStream<Uint8Array>
+	chunkSize: number
+	/** A chunk was cut from the stream and is ready to send. */
+	onChunkRead?: (chunkNumber: number, bytes: number) => void
+}
+
+/**
+ * Handle for a running transfer.
+ */
+export interface ChunkEngine<T = void> {
+	/** Resolves once every chunk has been accepted; rejects on abort or a permanent failure. */
+	done: Promise<T>
+	/** Drops in-flight requests and stops dispatching; confirmed chunks are kept. */
+	pause(): void
+	/** Continues with the chunks that are still missing. */
+	resume(): void
+}
+
+/**
+ * Final size of a streamed file, known once its source ended.
+ */
+export interface StreamedFileSize {
+	totalSize: number
+	totalChunks: number
+}
+
+/**
+ * Where a transfer's chunks come from.
+ */
+interface ChunkSource {
+	/** Next chunk to send, or `null` once none are left; may wait for data to be produced. */
+	take(): Promise<number | null>
+	/** Returns a chunk interrupted by a pause so it goes first on resume. */
+	putBack(chunkNumber: number): void
+	/** Wire bytes of a chunk handed out by `take`. */
+	read(chunkNumber: number): Promise<Blob>
+	/** Bytes a chunk adds to the upload's progress. */
+	size(chunkNumber: number): number
+	/** The server accepted the chunk; its bytes are no longer needed. */
+	confirm(chunkNumber: number): void
+	/** The transfer stopped for good. */
+	cancel(): void
+}
+
+/**
+ * Waits for `ms`, rejecting early when the signal aborts.
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(new DOMException("Upload aborted", "AbortError"))
+			return
+		}
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(new DOMException("Upload aborted", "AbortError"))
+		}
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort)
+			resolve()
+		}, ms)
+		signal.addEventListener("abort", onAbort, { once: true })
+	})
+}
+
+/**
+ * Sends chunks from `source` through {@link uploadChunk}, so every request goes through
+ * the shared axios instance and its interceptors. Several lanes pull chunks from the
+ * source; the limiter decides how many of them are actually sending.
+ */
+function runChunkTransfer(
+	source: ChunkSource,
+	laneCount: number,
+	initialBytes: number,
+	{
+		uploadId,
+		limiter,
+		signal: outerSignal,
+		retryPolicy = DEFAULT_RETRY_POLICY,
+		onProgress,
+		onChunkComplete,
+		onRetry,
+	}: ChunkTransferOptions,
+): ChunkEngine {
+	/** Aborted by the caller, or internally once any chunk fails for good so sibling lanes stop. */
+	const engineController = new AbortController()
+	const signal = engineController.signal
+	const abortEngine = () => engineController.abort()
+	if (outerSignal.aborted) abortEngine()
+	outerSignal.addEventListener("abort", abortEngine, { once: true })
+
+	/** Digests survive pauses and retries so each chunk is hashed once. */
+	const digests = new Map<number, Promise<string | undefined>>()
+	const inflight = new Map<number, AbortController>()
+	const loadedBytes = new Map<number, number>()
+	let confirmedBytes = initialBytes
+
+	let paused = false
+	let wakeLanes: Array<() => void> = []
+
+	const wakeAllLanes = () => {
+		const lanes = wakeLanes
+		wakeLanes = []
+		lanes.forEach((wake) => wake())
+	}
+	signal.addEventListener("abort", wakeAllLanes, { once: true })
+
+	const emitProgress = () => {
+		let inFlightBytes = 0
+		loadedBytes.forEach((bytes) => {
+			inFlightBytes += bytes
+		})
+		onProgress?.(confirmedBytes + inFlightBytes)
+	}
+
+	const waitWhilePaused = async () => {
+		while (paused) {
+			if (signal.aborted) throw new DOMException("Upload aborted", "AbortError")
+			await new Promise<void>((resolve) => {
+				wakeLanes.push(resolve)
+			})
+		}
+	}
+
+	const digestFor = (chunkNumber: number, chunk: Blob) => {
+		let digest = digests.get(chunkNumber)
+		if (!digest) {
+			/** The whole-file checksum still guards the chunk if hashing fails. */
+			digest = digestChunk(chunk).catch((digestError) => {
+				if (import.meta.env.DEV) {
+					console.warn(`Failed to hash chunk ${chunkNumber}`, digestError)
+				}
+				return undefined
+			})
+			digests.set(chunkNumber, digest)
+		}
+		return digest
+	}
+
+	/**
+	 * Sends one chunk, retrying transient failures and checksum rejections (bytes damaged in
+	 * transit) with backoff. Resolves `false` when a pause interrupted it.
+	 */
+	const sendChunk = async (chunkNumber: number): Promise<boolean> => {
+		const bytes = source.size(chunkNumber)
+		const chunk = await source.read(chunkNumber)
+		const checksum = await digestFor(chunkNumber, chunk)
+
+		for (let attempt = 1; ; attempt++) {
+			await limiter.acquire()
+			if (paused || signal.aborted) {
+				limiter.release(null)
+				return false
+			}
+
+			const controller = new AbortController()
+			const forwardAbort = () => controller.abort()
+			signal.addEventListener("abort", forwardAbort, { once: true })
+			inflight.set(chunkNumber, controller)
+			const startedAt = performance.now()
+
+			try {
+				await uploadChunk({
+					uploadId,
+					chunkNumber,
+					chunk,
+					checksum,
+					signal: controller.signal,
+					onUploadProgress: (loaded) => {
+						loadedBytes.set(chunkNumber, Math.min(loaded, bytes))
+						emitProgress()
+					},
+				})
+				limiter.release({ ok: true, bytes })
+				loadedBytes.delete(chunkNumber)
+				digests.delete(chunkNumber)
+				confirmedBytes += bytes
+				source.confirm(chunkNumber)
+				onChunkComplete?.(chunkNumber, bytes, performance.now() - startedAt)
+				emitProgress()
+				return true
+			} catch (chunkError) {
+				loadedBytes.delete(chunkNumber)
+				emitProgress()
+				if (signal.aborted) {
+					limiter.release(null)
+					throw new DOMException("Upload aborted", "AbortError")
+				}
+				if (paused) {
+					limiter.release(null)
+					return false
+				}
+				limiter.release({ ok: false })
+				const retryable =
+					isChunkChecksumRejection(chunkError, chunkNumber) || isRetryableError(chunkError, retryPolicy)
+				if (attempt >= retryPolicy.maxAttempts || !retryable) {
+					throw chunkError
+				}
+				const retryDelay = computeRetryDelay(attempt, retryPolicy)
+				onRetry?.(chunkNumber, attempt, retryDelay, chunkError)
+				await delay(retryDelay, signal)
+			} finally {
+				inflight.delete(chunkNumber)
+				signal.removeEventListener("abort", forwardAbort)
+			}
+		}
+	}
+
+	/** Lanes keep pulling chunks until the source runs dry. */
+	const runLane = async () => {
+		for (;;) {
+			await waitWhilePaused()
+			if (signal.aborted) throw new DOMException("Upload aborted", "AbortError")
+			const chunkNumber = await source.take()
+			if (chunkNumber === null) return
+			const finished = await sendChunk(chunkNumber)
+			if (!finished) {
+				/** Interrupted by a pause: put it back at the front so it goes first on resume. */
+				source.putBack(chunkNumber)
+			}
+		}
+	}
+
+	const done = (async () => {
+		emitProgress()
+		try {
+			await Promise.all(
+				Array.from({ length: Math.max(1, laneCount) }, () =>
+					runLane().catch((laneError) => {
+						abortEngine()
+						throw laneError
+					}),
+				),
+			)
+		} catch (transferError) {
+			source.cancel()
+			throw transferError
+		} finally {
+			outerSignal.removeEventListener("abort", abortEngine)
+		}
+	})()
+
+	return {
+		done,
+		pause() {
+			if (paused) return
+			paused = true
+			inflight.forEach((controller) => controller.abort())
+		},
+		resume() {
+			if (!paused) return
+			paused = false
+			wakeAllLanes()
+		},
+	}
+}
+
+/**
+ * Uploads the missing chunks of a file, slicing them from the blob on demand.
+ */
+export function createChunkEngine({
+	file,
+	chunkSize,
+	totalChunks,
+	completedChunks,
+	transformChunk,
+	...transferOptions
+}: ChunkEngineOptions): ChunkEngine {
+	const confirmed = new Set(completedChunks)
+	const queue: number[] = []
+	for (let chunkNumber = 1; chunkNumber <= totalChunks; chunkNumber++) {
+		if (!confirmed.has(chunkNumber)) queue.push(chunkNumber)
+	}
+
+	const chunkLength = (chunkNumber: number) => {
+		const start = (chunkNumber - 1) * chunkSize
+		return Math.max(0, Math.min(file.size, start + chunkSize) - start)
+	}
+
+	const source: ChunkSource = {
+		take: () => Promise.resolve(queue.shift() ?? null),
+		putBack: (chunkNumber) => {
+			queue.unshift(chunkNumber)
+		},
+		read: (chunkNumber) => {
+			const start = (chunkNumber - 1) * chunkSize
+			const slice = file.slice(start, start + chunkLength(chunkNumber))
+			return transformChunk ? transformChunk(chunkNumber, slice) : Promise.resolve(slice)
+		},
+		size: chunkLength,
+		confirm: () => {},
+		cancel: () => {},
+	}
+
+	const confirmedBytes = Array.from(confirmed).reduce((sum, chunkNumber) => sum + chunkLength(chunkNumber), 0)
+	return runChunkTransfer(source, Math.min(transferOptions.limiter.max, queue.length), confirmedBytes, transferOptions)
+}
+
+/**
+ * Uploads a file while it is being produced: chunks are cut from `source` as it advances
+ * and dropped once confirmed, so memory stays around one chunk per lane. Resolves with
+ * the file's final size once the source has ended and every chunk is accepted.
+ */
+export function createStreamChunkEngine({
+	source: stream,
+	chunkSize,
+	onChunkRead,
+	...transferOptions
+}: StreamChunkEngineOptions): ChunkEngine<StreamedFileSize> {
+	const reader = stream.getReader()
+	const retryQueue: number[] = []
+	const chunks = new Map<number, Blob>()
+	let pieces: Uint8Array[] = []
+	let bufferedBytes = 0
+	let ended = false
+	let producedChunks = 0
+	let totalSize = 0
+	/** Reads are serialised so chunks are cut from the stream in order. */
+	let reading: Promise<unknown> = Promise.resolve()
+
+	/** Removes the first `length` buffered bytes as one blob. */
+	const cutChunk = (length: number) => {
+		const parts: Uint8Array[] = []
+		let remaining = length
+		while (remaining > 0) {
+			const piece = pieces[0]
+			if (piece.byteLength <= remaining) {
+				parts.push(piece)
+				pieces = pieces.slice(1)
+				remaining -= piece.byteLength
+			} else {
+				parts.push(piece.subarray(0, remaining))
+				pieces[0] = piece.subarray(remaining)
+				remaining = 0
+			}
+		}
+		bufferedBytes -= length
+		return new Blob(parts)
+	}
+
+	const readNextChunk = async (): Promise<number | null> => {
+		while (!ended && bufferedBytes < chunkSize) {
+			const { done, value } = await reader.read()
+			if (done) {
+				ended = true
+			} else if (value.byteLength) {
+				pieces.push(value)
+				bufferedBytes += value.byteLength
+			}
+		}
+		if (bufferedBytes === 0) return null
+
+		const chunk = cutChunk(Math.min(chunkSize, bufferedBytes))
+		const chunkNumber = ++producedChunks
+		totalSize += chunk.size
+		chunks.set(chunkNumber, chunk)
+		onChunkRead?.(chunkNumber, chunk.size)
+		return chunkNumber
+	}
+
+	const source: ChunkSource = {
+		take: () => {
+			const retry = retryQueue.shift()
+			if (retry !== undefined) return Promise.resolve(retry)
+			const next = reading.then(readNextChunk)
+			reading = next.catch(() => undefined)
+			return next
+		},
+		putBack: (chunkNumber) => {
+			retryQueue.unshift(chunkNumber)
+		},
+		read: (chunkNumber) => {
+			const chunk = chunks.get(chunkNumber)
+			return chunk ? Promise.resolve(chunk) : Promise.reject(new Error(`Chunk ${chunkNumber} is no longer buffered`))
+		},
+		size: (chunkNumber) => chunks.get(chunkNumber)?.size ?? 0,
+		confirm: (chunkNumber) => {
+			chunks.delete(chunkNumber)
+		},
+		cancel: () => {
+			void reader.cancel().catch(() => undefined)
+		},
+	}
+
+	const transfer = runChunkTransfer(source, transferOptions.limiter.max, 0, transferOptions)
+	return {
+		...transfer,
+		done: transfer.done.then(() => ({ totalSize, totalChunks: producedChunks })),
+	}
+}
@@ -0,0 +1,25 @@
+/**
+ * Copies text to the clipboard, falling back to a hidden textarea where the async
+ * Clipboard API is unavailable (e.g. insecure origins).
+ */
+export async function copyText(text: string): Promise<void> {
+	if (navigator.clipboard?.writeText) {
+		await navigator.clipboard.writeText(text)
+		return
+	}
+
+	const textArea = document.createElement("textarea")
+	textArea.value = text
+	textArea.style.position = "fixed"
+	textArea.style.opacity = "0"
+	document.body.appendChild(textArea)
+	try {
+		textArea.focus()
+		textArea.select()
+		if (!document.execCommand("copy")) {
+			throw new Error("Copy command was rejected")
+		}
+	} finally {
+		document.body.removeChild(textArea)
+	}
+}
@@ -0,0 +1,116 @@
+/**
+ * Outcome reported when a slot is released; `null` means the work was cancelled
+ * (e.g. by a pause) and says nothing about the link.
+ */
+export type SlotOutcome = { ok: true; bytes: number } | { ok: false } | null
+
+/**
+ * Concurrency gate whose limit adapts to measured throughput and error rate.
+ */
+export interface AdaptiveLimiter {
+	/** Hard ceiling the limit never exceeds. */
+	readonly max: number
+	/** Current number of slots that may run at once. */
+	limit(): number
+	/** Number of slots currently held. */
+	active(): number
+	/** Resolves once a slot is free; the caller must `release` it afterwards. */
+	acquire(): Promise<void>
+	release(outcome: SlotOutcome): void
+}
+
+export interface AdaptiveLimiterOptions {
+	/** Hard ceiling for the limit. */
+	max: number
+	/** Limit used before any measurement is available. */
+	initial?: number
+	/** Relative throughput change that counts as a real improvement or regression. */
+	tolerance?: number
+}
+
+/**
+ * Creates an additive-increase / multiplicative-decrease limiter.
+ *
+ * Completed work is measured in windows of roughly two rounds at the current limit.
+ * When a window's throughput beats the previous one the limit grows by one, when it
+ * drops the limit shrinks by one, and any failure halves it straight away.
+ */
+export function createAdaptiveLimiter({ max, initial = 2, tolerance = 0.1 }: AdaptiveLimiterOptions): AdaptiveLimiter {
+	const ceiling = Math.max(1, Math.floor(max))
+	let currentLimit = Math.min(ceiling, Math.max(1, Math.floor(initial)))
+	let activeSlots = 0
+	const waiters: Array<() => void> = []
+
+	let windowStartedAt: number | null = null
+	let windowBytes = 0
+	let windowCompletions = 0
+	let previousThroughput: number | null = null
+
+	const resetWindow = () => {
+		windowStartedAt = activeSlots > 0 ? performance.now() : null
+		windowBytes = 0
+		windowCompletions = 0
+	}
+
+	const drain = () => {
+		while (activeSlots < currentLimit && waiters.length) {
+			activeSlots++
+			waiters.shift()?.()
+		}
+	}
+
+	const adjust = (nextLimit: number) => {
+		currentLimit = Math.min(ceiling, Math.max(1, nextLimit))
+		drain()
+	}
+
+	const recordSuccess = (bytes: number) => {
+		const now = performance.now()
+		windowBytes += bytes
+		windowCompletions++
+		if (windowCompletions < currentLimit * 2) return
+
+		const elapsed = Math.max(1, now - (windowStartedAt ?? now))
+		const throughput = windowBytes / elapsed
+		resetWindow()
+
+		if (previousThroughput === null || throughput > previousThroughput * (1 + tolerance)) {
+			adjust(currentLimit + 1)
+		} else if (throughput < previousThroughput * (1 - tolerance)) {
+			adjust(currentLimit - 1)
+		}
+		previousThroughput = throughput
+	}
+
+	const recordFailure = () => {
+		resetWindow()
+		previousThroughput = null
+		adjust(Math.ceil(currentLimit / 2))
+	}
+
+	return {
+		max: ceiling,
+		limit: () => currentLimit,
+		active: () => activeSlots,
+		acquire() {
+			/** The measurement window opens with the first piece of work. */
+			windowStartedAt ??= performance.now()
+			if (activeSlots < currentLimit) {
+				activeSlots++
+				return Promise.resolve()
+			}
+			return new Promise<void>((resolve) => {
+				waiters.push(resolve)
+			})
+		},
+		release(outcome) {
+			activeSlots = Math.max(0, activeSlots - 1)
+			if (outcome?.ok) {
+				recordSuccess(outcome.bytes)
+			} else if (outcome) {
+				recordFailure()
+			}
+			drain()
+		},
+	}
+}
@@ -0,0 +1,69 @@
+const DATABASE_NAME = "quickshare"
+/** Version 2 added the upload history store. */
+const DATABASE_VERSION = 2
+
+/** Resumable sessions, keyed by file fingerprint. */
+export const SESSION_STORE = "uploadSessions"
+/** Finished uploads listed on the history page, keyed by upload ID. */
+export const HISTORY_STORE = "uploadHistory"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Opens (and lazily upgrades) the shared database, reusing the connection across calls.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+	if (databasePromise) return databasePromise
+
+	databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+		if (typeof indexedDB === "undefined") {
+			reject(new Error("IndexedDB is not available in this environment"))
+			return
+		}
+
+		const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+		request.onupgradeneeded = () => {
+			const database = request.result
+			if (!database.objectStoreNames.contains(SESSION_STORE)) {
+				database.createObjectStore(SESSION_STORE, { keyPath: "fingerprint" })
+			}
+			if (!database.objectStoreNames.contains(HISTORY_STORE)) {
+				database.createObjectStore(HISTORY_STORE, { keyPath: "uploadId" })
+			}
+		}
+		request.onsuccess = () => {
+			const database = request.result
+			/** Let a newer tab upgrade the schema instead of blocking it. */
+			database.onversionchange = () => {
+				database.close()
+				databasePromise = null
+			}
+			resolve(database)
+		}
+		request.onerror = () => reject(request.error ?? new Error("Failed to open the local database"))
+	}).catch((error) => {
+		databasePromise = null
+		throw error
+	})
+
+	return databasePromise
+}
+
+/**
+ * Runs a single request against one object store and resolves with its result once the
+ * transaction commits.
+ */
+export async function withObjectStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const database = await openDatabase()
+	return new Promise<T>((resolve, reject) => {
+		const transaction = database.transaction(storeName, mode)
+		const request = run(transaction.objectStore(storeName))
+		transaction.oncomplete = () => resolve(request.result)
+		transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error(`${storeName} request failed`))
+		transaction.onabort = () => reject(transaction.error ?? new Error(`${storeName} transaction aborted`))
+	})
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+
+import { installNodeFileGlobals } from "../test/nodeFileGlobals"
+import {
+	createDecryptionStream,
+	decodeEncryptionFragment,
+	encodeEncryptionFragment,
+	encryptChunk,
+	encryptedSize,
+	generateEncryptionKey,
+	plaintextSize,
+} from "./encryption"
+
+installNodeFileGlobals()
+
+/** Small chunks so a short text spans several of them, with a shorter final one. */
+const CHUNK_SIZE = 8
+
+/** Encrypts a file chunk by chunk the way the uploader does and joins the result. */
+async function encryptFile(key: CryptoKey, bytes: Uint8Array) {
+	const totalChunks = Math.max(1, Math.ceil(bytes.length / CHUNK_SIZE))
+	const chunks: Uint8Array[] = []
+	for (let chunkNumber = 1; chunkNumber <= totalChunks; chunkNumber++) {
+		const plaintext = bytes.slice((chunkNumber - 1) * CHUNK_SIZE, chunkNumber * CHUNK_SIZE)
+		const encrypted = await encryptChunk(key, chunkNumber, new Blob([plaintext]), chunkNumber === totalChunks)
+		chunks.push(new Uint8Array(await encrypted.arrayBuffer()))
+	}
+	return joinBytes(chunks)
+}
+
+function joinBytes(pieces: Uint8Array[]) {
+	const joined = new Uint8Array(pieces.reduce((sum, piece) => sum + piece.length, 0))
+	let offset = 0
+	pieces.forEach((piece) => {
+		joined.set(piece, offset)
+		offset += piece.length
+	})
+	return joined
+}
+
+/**
+ * Streams the ciphertext through the decryption stream in pieces of the given size, like a
+ * download would, and reads the result back as text.
+ */
+async function decryptFile(key: CryptoKey, ciphertext: Uint8Array, pieceSize: number) {
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let offset = 0; offset < ciphertext.length; offset += pieceSize) {
+				controller.enqueue(ciphertext.slice(offset, offset + pieceSize))
+			}
+			controller.close()
+		},
+	})
+	const pieces: Uint8Array[] = []
+	await body.pipeThrough(createDecryptionStream({ key, chunkSize: CHUNK_SIZE })).pipeTo(
+		new WritableStream({
+			write(piece) {
+				pieces.push(piece)
+			},
+		}),
+	)
+	return new TextDecoder().decode(joinBytes(pieces))
+}
+
+describe("encryption", () => {
+	it("decrypts what it encrypted, however the download is split up", async () => {
+		const key = await generateEncryptionKey()
+		const plaintext = "end-to-end encrypted notes"
+		const ciphertext = await encryptFile(key, new TextEncoder().encode(plaintext))
+
+		expect(ciphertext.length).toBe(encryptedSize(plaintext.length, CHUNK_SIZE))
+		expect(plaintextSize(ciphertext.length, CHUNK_SIZE)).toBe(plaintext.length)
+		for (const pieceSize of [1, 5, CHUNK_SIZE + 16, ciphertext.length]) {
+			expect(await decryptFile(key, ciphertext, pieceSize)).toBe(plaintext)
+		}
+	})
+
+	it("carries the key and chunk size through the link fragment", async () => {
+		const key = await generateEncryptionKey()
+		const plaintext = "shared through a link"
+		const ciphertext = await encryptFile(key, new TextEncoder().encode(plaintext))
+
+		const decoded = await decodeEncryptionFragment(`#${await encodeEncryptionFragment({ key, chunkSize: CHUNK_SIZE })}`)
+
+		expect(decoded?.chunkSize).toBe(CHUNK_SIZE)
+		expect(await decryptFile(decoded!.key, ciphertext, 7)).toBe(plaintext)
+		expect(await decodeEncryptionFragment("")).toBeNull()
+	})
+
+	it("refuses a download that was cut short", async () => {
+		const key = await generateEncryptionKey()
+		const ciphertext = await encryptFile(key, new TextEncoder().encode("three chunks of plaintext"))
+		const truncated = ciphertext.slice(0, (CHUNK_SIZE + 16) * 2)
+
+		await expect(decryptFile(key, truncated, 5)).rejects.toThrow("couldn't be decrypted")
+	})
+})
@@ -0,0 +1,213 @@
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+
+/**
+ * Bytes AES-GCM appends to every encrypted chunk.
+ */
+export const ENCRYPTION_TAG_BYTES = 16
+
+const NONCE_BYTES = 12
+const KEY_FRAGMENT_PARAM = "key"
+const CHUNK_SIZE_FRAGMENT_PARAM = "chunk"
+
+/**
+ * What the download page needs to decrypt a file, carried in the share link's `#fragment`
+ * so it never reaches the server.
+ */
+export interface EncryptionFragment {
+	key: CryptoKey
+	/** Plaintext bytes per chunk; every chunk but the last is this size before encryption. */
+	chunkSize: number
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = ""
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte)
+	})
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+	const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=")
+	const binary = atob(padded)
+	const bytes = new Uint8Array(binary.length)
+	for (let index = 0; index < binary.length; index++) {
+		bytes[index] = binary.charCodeAt(index)
+	}
+	return bytes
+}
+
+/**
+ * The nonce is the big-endian chunk number in the last four bytes. Each upload has its own
+ * key, so the pair is unique, and re-encrypting a chunk after a pause or a reload yields the
+ * exact same ciphertext (and checksum) the server may already hold.
+ */
+function chunkNonce(chunkNumber: number): Uint8Array<ArrayBuffer> {
+	const nonce = new Uint8Array(NONCE_BYTES)
+	new DataView(nonce.buffer).setUint32(NONCE_BYTES - 4, chunkNumber)
+	return nonce
+}
+
+/**
+ * Marks the final chunk in the authenticated data so a truncated file fails to decrypt.
+ */
+function chunkAdditionalData(isFinal: boolean): Uint8Array<ArrayBuffer> {
+	return new Uint8Array([isFinal ? 1 : 0])
+}
+
+/**
+ * Creates a fresh AES-GCM key for one upload.
+ */
+export function generateEncryptionKey(): Promise<CryptoKey> {
+	return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"])
+}
+
+/**
+ * Serialises a key so it can be persisted with a resumable session.
+ */
+export async function exportEncryptionKey(key: CryptoKey): Promise<string> {
+	return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)))
+}
+
+/**
+ * Restores a key serialised with {@link exportEncryptionKey}.
+ */
+export function importEncryptionKey(serialized: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey("raw", fromBase64Url(serialized), { name: "AES-GCM" }, true, ["encrypt", "decrypt"])
+}
+
+/**
+ * Builds the `#fragment` appended to a share link.
+ */
+export async function encodeEncryptionFragment({ key, chunkSize }: EncryptionFragment): Promise<string> {
+	const params = new URLSearchParams({
+		[KEY_FRAGMENT_PARAM]: await exportEncryptionKey(key),
+		[CHUNK_SIZE_FRAGMENT_PARAM]: String(chunkSize),
+	})
+	return params.toString()
+}
+
+/**
+ * Reads the decryption parameters from a share link's fragment. Resolves `null` when the
+ * link isn't an encrypted one; rejects when the fragment is present but malformed.
+ */
+export async function decodeEncryptionFragment(hash: string): Promise<EncryptionFragment | null> {
+	const params = new URLSearchParams(hash.replace(/^#/, ""))
+	const serializedKey = params.get(KEY_FRAGMENT_PARAM)
+	if (!serializedKey) return null
+	const chunkSize = Number(params.get(CHUNK_SIZE_FRAGMENT_PARAM))
+	if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+		throw new Error("The link's decryption details are incomplete")
+	}
+	return { key: await importEncryptionKey(serializedKey), chunkSize }
+}
+
+/**
+ * Size of a file once every chunk carries its authentication tag.
+ */
+export function encryptedSize(plaintextBytes: number, chunkSize: number): number {
+	const totalChunks = Math.max(1, Math.ceil(plaintextBytes / chunkSize))
+	return plaintextBytes + totalChunks * ENCRYPTION_TAG_BYTES
+}
+
+/**
+ * Inverse of {@link encryptedSize}.
+ */
+export function plaintextSize(encryptedBytes: number, chunkSize: number): number {
+	const totalChunks = Math.max(1, Math.ceil(encryptedBytes / (chunkSize + ENCRYPTION_TAG_BYTES)))
+	return Math.max(0, encryptedBytes - totalChunks * ENCRYPTION_TAG_BYTES)
+}
+
+/**
+ * Encrypts one chunk of a file. The same key, chunk number and bytes always produce the same output.
+ */
+export async function encryptChunk(
+	key: CryptoKey,
+	chunkNumber: number,
+	chunk: Blob,
+	isFinal: boolean,
+): Promise<Blob> {
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv: chunkNonce(chunkNumber), additionalData: chunkAdditionalData(isFinal) },
+		key,
+		await chunk.arrayBuffer(),
+	)
+	return new Blob([ciphertext], { type: "application/octet-stream" })
+}
+
+/**
+ * Hex-encoded SHA-256 of the encrypted file, i.e. of what the server reassembles. Chunks are
+ * encrypted one at a time and fed into a streaming hasher so memory stays flat.
+ */
+export async function sha256EncryptedFileHex(file: Blob, key: CryptoKey, chunkSize: number): Promise<string> {
+	const hasher = sha256.create()
+	const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize))
+	for (let chunkNumber = 1; chunkNumber <= totalChunks; chunkNumber++) {
+		const start = (chunkNumber - 1) * chunkSize
+		const chunk = file.slice(start, Math.min(file.size, start + chunkSize))
+		const encrypted = await encryptChunk(key, chunkNumber, chunk, chunkNumber === totalChunks)
+		hasher.update(new Uint8Array(await encrypted.arrayBuffer()))
+	}
+	return bytesToHex(hasher.digest())
+}
+
+/**
+ * Decrypts a downloaded file chunk by chunk as bytes arrive. A chunk is only known to be the
+ * final one once the stream ends, so one full chunk is held back until more data shows up.
+ */
+export function createDecryptionStream({ key, chunkSize }: EncryptionFragment): TransformStream<Uint8Array, Uint8Array> {
+	const encryptedChunkSize = chunkSize + ENCRYPTION_TAG_BYTES
+	/** Pieces received since the last decrypted chunk; joined only once a full chunk is in. */
+	let pieces: Uint8Array[] = []
+	let bufferedBytes = 0
+	let chunkNumber = 0
+
+	const takeBuffered = () => {
+		const joined = new Uint8Array(bufferedBytes)
+		let offset = 0
+		pieces.forEach((piece) => {
+			joined.set(piece, offset)
+			offset += piece.length
+		})
+		pieces = []
+		bufferedBytes = 0
+		return joined
+	}
+
+	const decrypt = async (ciphertext: Uint8Array, isFinal: boolean) => {
+		chunkNumber++
+		try {
+			const plaintext = await crypto.subtle.decrypt(
+				{ name: "AES-GCM", iv: chunkNonce(chunkNumber), additionalData: chunkAdditionalData(isFinal) },
+				key,
+				ciphertext.slice(),
+			)
+			return new Uint8Array(plaintext)
+		} catch {
+			throw new Error("The file couldn't be decrypted. The link may be incomplete or the file was altered.")
+		}
+	}
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		async transform(incoming, controller) {
+			pieces.push(incoming)
+			bufferedBytes += incoming.length
+			if (bufferedBytes <= encryptedChunkSize) return
+
+			let buffered = takeBuffered()
+			while (buffered.length > encryptedChunkSize) {
+				controller.enqueue(await decrypt(buffered.subarray(0, encryptedChunkSize), false))
+				buffered = buffered.subarray(encryptedChunkSize)
+			}
+			pieces = [buffered]
+			bufferedBytes = buffered.length
+		},
+		async flush(controller) {
+			if (bufferedBytes < ENCRYPTION_TAG_BYTES) {
+				throw new Error("The downloaded file is incomplete.")
+			}
+			controller.enqueue(await decrypt(takeBuffered(), true))
+		},
+	})
+}
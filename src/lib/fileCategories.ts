@@ -0,0 +1,28 @@
+/**
+ * Buckets the sidebar groups supported extensions into, in display order.
+ */
+export const FILE_CATEGORIES = ["Documents", "Images", "Video", "Audio", "Archives", "Code", "Other"] as const
+
+export type FileCategory = (typeof FILE_CATEGORIES)[number]
+
+const CATEGORY_EXTENSIONS: Record<Exclude<FileCategory, "Other">, string[]> = {
+	Documents: ["pdf", "doc", "docx", "odt", "rtf", "txt", "md", "xls", "xlsx", "ods", "csv", "ppt", "pptx", "odp", "epub", "pages", "numbers", "key"],
+	Images: ["jpg", "jpeg", "png", "gif", "webp", "svg", "bmp", "tif", "tiff", "heic", "heif", "raw", "psd", "ai"],
+	Video: ["mp4", "mov", "avi", "mkv", "webm", "m4v", "wmv", "flv", "mpeg", "mpg", "3gp"],
+	Audio: ["mp3", "wav", "flac", "aac", "ogg", "m4a", "wma", "aiff", "opus"],
+	Archives: ["zip", "rar", "7z", "tar", "gz", "tgz", "bz2", "xz", "iso", "dmg"],
+	Code: ["js", "ts", "tsx", "jsx", "json", "html", "css", "py", "java", "c", "cpp", "h", "go", "rs", "rb", "php", "sh", "sql", "xml", "yaml", "yml"],
+}
+
+const CATEGORY_BY_EXTENSION = new Map<string, FileCategory>(
+	Object.entries(CATEGORY_EXTENSIONS).flatMap(([category, extensions]) =>
+		extensions.map((extension) => [extension, category as FileCategory] as const),
+	),
+)
+
+/**
+ * Category an extension belongs to; unknown extensions land in "Other".
+ */
+export function categoryOf(extension: string): FileCategory {
+	return CATEGORY_BY_EXTENSION.get(extension.toLowerCase()) ?? "Other"
+}
@@ -0,0 +1,67 @@
+/**
+ * Paths of files found while walking dropped folders. `File.webkitRelativePath` is only
+ * filled in by folder pickers, so drops record theirs here instead.
+ */
+const droppedPaths = new WeakMap<File, string>()
+
+/**
+ * Path of a file inside the folder it was picked or dropped with, e.g. `photos/2024/a.jpg`.
+ * Returns `""` for files chosen on their own.
+ */
+export function relativePathOf(file: File): string {
+	return droppedPaths.get(file) ?? file.webkitRelativePath ?? ""
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+	return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+/**
+ * Lists a directory completely; `readEntries` hands out children in batches until it
+ * returns an empty one.
+ */
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+	const reader = entry.createReader()
+	const children: FileSystemEntry[] = []
+	for (;;) {
+		const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+		if (!batch.length) return children
+		children.push(...batch)
+	}
+}
+
+/**
+ * Collects every file under an entry, recording the path of files that came from a folder.
+ */
+async function collectFiles(entry: FileSystemEntry): Promise<File[]> {
+	if (entry.isFile) {
+		const file = await readFile(entry as FileSystemFileEntry)
+		/** `fullPath` is rooted at the drop, e.g. `/photos/a.jpg`; loose files sit at the root. */
+		const path = entry.fullPath.replace(/^\/+/, "")
+		if (path.includes("/")) droppedPaths.set(file, path)
+		return [file]
+	}
+	if (entry.isDirectory) {
+		const children = await readDirectory(entry as FileSystemDirectoryEntry)
+		const nested = await Promise.all(children.map(collectFiles))
+		return nested.flat()
+	}
+	return []
+}
+
+/**
+ * Files from a drop, walking into dropped folders. Entries must be taken from the event
+ * synchronously, so call this from the drop handler itself, before any `await`.
+ */
+export function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+	const entries = Array.from(dataTransfer.items ?? [])
+		.filter((item) => item.kind === "file")
+		.map((item) => item.webkitGetAsEntry?.() ?? null)
+
+	/** Browsers without the entries API (or synthetic drops) only expose flat files. */
+	if (!entries.length || entries.some((entry) => entry === null)) {
+		return Promise.resolve(Array.from(dataTransfer.files ?? []))
+	}
+
+	return Promise.all(entries.map((entry) => collectFiles(entry!))).then((nested) => nested.flat())
+}
@@ -0,0 +1,15 @@
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"]
+
+/**
+ * Formats a byte count with the largest binary unit that keeps the value at or above 1.
+ */
+export function formatBytes(bytes: number): string {
+	let value = bytes
+	let unitIndex = 0
+	while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+		value /= 1024
+		unitIndex++
+	}
+	const rounded = unitIndex === 0 ? value.toFixed(0) : value.toFixed(1).replace(/\.0$/, "")
+	return `${rounded} ${BYTE_UNITS[unitIndex]}`
+}
@@ -0,0 +1,23 @@
+/**
+ * Scores how well `query` matches `candidate` as a case-insensitive subsequence.
+ * Returns `null` when some query character can't be found in order. Higher is better:
+ * consecutive runs and matches at the start of the candidate weigh more.
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+	const needle = query.trim().toLowerCase()
+	if (!needle) return 0
+	const haystack = candidate.toLowerCase()
+
+	let score = 0
+	let run = 0
+	let searchFrom = 0
+	for (const character of needle) {
+		const index = haystack.indexOf(character, searchFrom)
+		if (index === -1) return null
+		run = index === searchFrom ? run + 1 : 1
+		score += run * 2 + (index === 0 ? 3 : 0)
+		searchFrom = index + 1
+	}
+	/** Prefer tighter candidates when several match equally well. */
+	return score - (haystack.length - needle.length) * 0.1
+}
@@ -0,0 +1,45 @@
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+
+import type { ChecksumJob } from "./checksum"
+import { sha256EncryptedFileHex } from "./encryption"
+
+/**
+ * Slice size used when streaming a whole file through the incremental hasher.
+ */
+const FILE_HASH_SLICE_SIZE = 8 * 1024 * 1024
+
+/**
+ * Hex-encoded SHA-256 of a blob, computed with WebCrypto.
+ */
+export async function sha256Hex(blob: Blob): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+	return bytesToHex(new Uint8Array(digest))
+}
+
+/**
+ * Hex-encoded SHA-256 of an entire file. WebCrypto can't hash incrementally, so the
+ * file is read slice by slice into a streaming hasher to keep memory flat.
+ */
+export async function sha256FileHex(file: Blob): Promise<string> {
+	const hasher = sha256.create()
+	for (let offset = 0; offset < file.size; offset += FILE_HASH_SLICE_SIZE) {
+		const slice = file.slice(offset, Math.min(file.size, offset + FILE_HASH_SLICE_SIZE))
+		hasher.update(new Uint8Array(await slice.arrayBuffer()))
+	}
+	return bytesToHex(hasher.digest())
+}
+
+/**
+ * Runs a hashing job, wherever the caller happens to be (worker or main thread).
+ */
+export function computeChecksum(job: ChecksumJob): Promise<string> {
+	switch (job.kind) {
+		case "chunk":
+			return sha256Hex(job.blob)
+		case "file":
+			return sha256FileHex(job.blob)
+		case "encrypted-file":
+			return sha256EncryptedFileHex(job.blob, job.key, job.chunkSize)
+	}
+}
@@ -0,0 +1,33 @@
+import { useCallback, useSyncExternalStore } from "react"
+
+import { requestAccessToken } from "../api"
+import {
+	credentialsFromTokens,
+	getAuthCredentials,
+	setAuthCredentials,
+	subscribeToAuthCredentials,
+} from "../authStore"
+import type { SignInRequest } from "../schema"
+
+/**
+ * Current credentials plus sign-in and sign-out actions. Signing in is optional; without
+ * credentials every request goes out anonymously.
+ */
+export function useAuth() {
+	const credentials = useSyncExternalStore(subscribeToAuthCredentials, getAuthCredentials, getAuthCredentials)
+
+	const signIn = useCallback(async (payload: SignInRequest, signal?: AbortSignal) => {
+		const tokens = await requestAccessToken(payload, signal)
+		setAuthCredentials(credentialsFromTokens(tokens, payload.email, null))
+	}, [])
+
+	const signInWithApiKey = useCallback((apiKey: string) => {
+		setAuthCredentials({ kind: "apiKey", apiKey })
+	}, [])
+
+	const signOut = useCallback(() => {
+		setAuthCredentials(null)
+	}, [])
+
+	return { credentials, signIn, signInWithApiKey, signOut }
+}
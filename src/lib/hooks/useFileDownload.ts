@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { downloadFile, getDownloadMetadata, toApiError, type ApiError } from "../api"
+import { createDecryptionStream, decodeEncryptionFragment, plaintextSize, type EncryptionFragment } from "../encryption"
+import type { DownloadMetadataResponse } from "../schema"
+
+/**
+ * Where a share link currently stands, from the metadata lookup to a finished download.
+ */
+export type FileDownloadStatus =
+	| "loading"
+	| "ready"
+	| "downloading"
+	| "downloaded"
+	| "expired"
+	| "missing"
+	| "failed"
+
+/**
+ * Byte progress for an active download.
+ */
+export interface FileDownloadProgress {
+	loadedBytes: number
+	totalBytes: number
+	percentage: number
+}
+
+/**
+ * Maps a failed request to the link state it implies, if any.
+ */
+function linkStatusFromError({ code }: ApiError): Extract<FileDownloadStatus, "expired" | "missing"> | null {
+	switch (code) {
+		case "session_expired":
+			return "expired"
+		case "not_found":
+			return "missing"
+		default:
+			return null
+	}
+}
+
+/**
+ * Largest file that may be assembled in memory where it can't be streamed to disk (256 MB).
+ */
+const MAX_BUFFERED_DOWNLOAD_BYTES = 256 * 1024 * 1024
+
+/**
+ * `showSaveFilePicker` from the File System Access API, which TypeScript's DOM types don't include.
+ */
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>
+
+/**
+ * Asks where to save the file and opens it for writing, so the download can stream straight
+ * to disk. Resolves `null` where the File System Access API isn't available; rejects with an
+ * `AbortError` when the user dismisses the picker.
+ */
+async function openSaveTarget(fileName: string): Promise<FileSystemWritableFileStream | null> {
+	const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+	if (!showSaveFilePicker) return null
+	const handle = await showSaveFilePicker({ suggestedName: fileName })
+	return handle.createWritable()
+}
+
+/**
+ * Hands a downloaded blob to the browser as a file save.
+ */
+function saveBlob(blob: Blob, fileName: string) {
+	const objectUrl = URL.createObjectURL(blob)
+	const anchor = document.createElement("a")
+	anchor.href = objectUrl
+	anchor.download = fileName
+	anchor.style.display = "none"
+	document.body.appendChild(anchor)
+	anchor.click()
+	document.body.removeChild(anchor)
+	/** Give the browser a moment to start the save before the URL goes away. */
+	window.setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+}
+
+/**
+ * Loads the metadata behind a share link and downloads the file with progress updates.
+ * End-to-end encrypted files are decrypted while they stream in, using the key from the
+ * link's `fragment` (the part after `#`). Files are written to disk as they arrive where the
+ * browser lets us pick a file; elsewhere only files up to 256 MB are downloaded, since they
+ * have to be held in memory first. Password-protected links need the password passed to `download`.
+ */
+export function useFileDownload(uploadId: string | undefined, fragment = "") {
+	const [metadata, setMetadata] = useState<DownloadMetadataResponse | null>(null)
+	const [encryption, setEncryption] = useState<EncryptionFragment | null>(null)
+	const [status, setStatus] = useState<FileDownloadStatus>("loading")
+	const [progress, setProgress] = useState<FileDownloadProgress | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	/** What the recipient can do about `error`, when there's a known next step. */
+	const [recovery, setRecovery] = useState<string | null>(null)
+	/** Why the password given for a protected link wasn't accepted. */
+	const [passwordError, setPasswordError] = useState<string | null>(null)
+	const abortControllerRef = useRef<AbortController | null>(null)
+
+	useEffect(() => {
+		if (!uploadId) {
+			setStatus("missing")
+			return
+		}
+
+		const controller = new AbortController()
+		setStatus("loading")
+		setMetadata(null)
+		setEncryption(null)
+		setError(null)
+		setRecovery(null)
+		setPasswordError(null)
+
+		Promise.all([getDownloadMetadata(uploadId, controller.signal), decodeEncryptionFragment(fragment)])
+			.then(([loaded, decoded]) => {
+				if (controller.signal.aborted) return
+				setMetadata(loaded)
+				setEncryption(decoded)
+				const expired = loaded.expires_at !== null && Date.parse(loaded.expires_at) <= Date.now()
+				if (expired) {
+					setStatus("expired")
+				} else if (loaded.encrypted && !decoded) {
+					setStatus("failed")
+					setError("This file is end-to-end encrypted, but the link is missing its key. Ask the sender for the full link.")
+				} else {
+					setStatus("ready")
+				}
+			})
+			.catch((metadataError) => {
+				if (controller.signal.aborted) return
+				const apiError = toApiError(metadataError)
+				const linkStatus = linkStatusFromError(apiError)
+				setStatus(linkStatus ?? "failed")
+				if (!linkStatus) {
+					setError(apiError.message)
+					setRecovery(apiError.recovery)
+				}
+			})
+
+		return () => controller.abort()
+	}, [fragment, uploadId])
+
+	/** Cancel a running download when the page goes away. */
+	useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+	/**
+	 * Downloads the file and saves it under its original name. `password` is required for
+	 * password-protected links.
+	 */
+	const download = useCallback(async (password?: string) => {
+		if (!uploadId || !metadata || abortControllerRef.current) return
+		if (metadata.encrypted && !encryption) return
+		if (metadata.password_protected && !password) {
+			setPasswordError("Enter the password to download this file.")
+			return
+		}
+
+		const controller = new AbortController()
+		abortControllerRef.current = controller
+		const decryption = metadata.encrypted ? encryption : null
+
+		/** The picker has to open while the click still counts as a user gesture, so it goes first. */
+		let target: FileSystemWritableFileStream | null
+		try {
+			target = await openSaveTarget(metadata.file_name)
+		} catch (pickerError) {
+			abortControllerRef.current = null
+			if (pickerError instanceof DOMException && pickerError.name === "AbortError") return
+			target = null
+		}
+
+		const savedSize = decryption ? plaintextSize(metadata.total_size, decryption.chunkSize) : metadata.total_size
+		if (!target && savedSize > MAX_BUFFERED_DOWNLOAD_BYTES) {
+			abortControllerRef.current = null
+			setStatus("failed")
+			setError(
+				"This file is too large to download in this browser, which can't save it to disk as it downloads. Open the link in Chrome or Edge.",
+			)
+			return
+		}
+
+		setStatus("downloading")
+		setError(null)
+		setRecovery(null)
+		setPasswordError(null)
+		setProgress({ loadedBytes: 0, totalBytes: metadata.total_size, percentage: 0 })
+
+		try {
+			const body = await downloadFile({
+				uploadId,
+				password,
+				signal: controller.signal,
+				onDownloadProgress: (loadedBytes, totalBytes) => {
+					const total = totalBytes ?? metadata.total_size
+					setProgress({
+						loadedBytes,
+						totalBytes: total,
+						percentage: total > 0 ? Math.min(100, Math.round((loadedBytes / total) * 100)) : 0,
+					})
+				},
+			})
+			const plaintext = decryption ? body.pipeThrough(createDecryptionStream(decryption)) : body
+			if (target) {
+				await plaintext.pipeTo(target, { signal: controller.signal })
+			} else {
+				saveBlob(await new Response(plaintext).blob(), metadata.file_name)
+			}
+			setStatus("downloaded")
+		} catch (downloadError) {
+			/** Discard the partly written file; `pipeTo` may already have done so. */
+			void target?.abort().catch(() => undefined)
+			if (controller.signal.aborted) return
+			const apiError = toApiError(downloadError)
+			/** A protected link's content request is refused with a 403 for a missing or wrong password. */
+			if (metadata.password_protected && apiError.code === "forbidden") {
+				setStatus("ready")
+				setProgress(null)
+				setPasswordError("That password isn't right. Check it with the sender and try again.")
+				return
+			}
+			const linkStatus = linkStatusFromError(apiError)
+			setStatus(linkStatus ?? "failed")
+			if (!linkStatus) {
+				setError(apiError.message)
+				setRecovery(apiError.recovery)
+			}
+		} finally {
+			if (abortControllerRef.current === controller) {
+				abortControllerRef.current = null
+			}
+		}
+	}, [encryption, metadata, uploadId])
+
+	/** Size of the file as the recipient gets it, without encryption overhead. */
+	const fileSize = metadata
+		? metadata.encrypted && encryption
+			? plaintextSize(metadata.total_size, encryption.chunkSize)
+			: metadata.total_size
+		: null
+
+	return {
+		metadata,
+		fileSize,
+		isEncrypted: metadata?.encrypted ?? false,
+		isPasswordProtected: metadata?.password_protected ?? false,
+		/** False for encrypted files whose link lacks the key. */
+		canDownload: metadata !== null && (!metadata.encrypted || encryption !== null),
+		status,
+		progress,
+		error,
+		recovery,
+		passwordError,
+		download,
+	}
+}
@@ -0,0 +1,431 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { http, HttpResponse } from "msw"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { installNodeFileGlobals } from "../../test/nodeFileGlobals"
+import { mockBackend, server } from "../../test/server"
+import { API_BASE_URL, ApiError } from "../api"
+import { getUploadRules, updateUploadRules } from "../uploadRules"
+import type { UploadQueueProgress } from "./useResumableUploader"
+import { useResumableUploader } from "./useResumableUploader"
+
+/** Small fixed chunks so a few bytes already span several requests. */
+const CHUNK_SIZE = 8
+
+installNodeFileGlobals()
+
+/** Method and path of every request the stub backend saw, in order. */
+let requests: string[] = []
+const recordRequest = ({ request }: { request: Request }) => {
+	requests.push(`${request.method} ${new URL(request.url).pathname.replace(new URL(API_BASE_URL).pathname, "")}`)
+}
+
+beforeEach(() => {
+	requests = []
+	server.events.on("request:start", recordRequest)
+})
+
+afterEach(() => {
+	server.events.removeAllListeners()
+})
+
+function textFile(name: string, content: string) {
+	return new File([content], name, { type: "text/plain", lastModified: 1_700_000_000_000 })
+}
+
+function formDataWith(...files: File[]) {
+	const formData = new FormData()
+	files.forEach((file) => formData.append("files", file))
+	return formData
+}
+
+function renderUploader({ maxParallelChunks }: { maxParallelChunks?: number } = {}) {
+	return renderHook(() =>
+		useResumableUploader({
+			chunkSize: CHUNK_SIZE,
+			maxParallelChunks,
+			retryPolicy: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 },
+		}),
+	)
+}
+
+/**
+ * Holds every upload of the given chunk until the returned `release` is called; later
+ * attempts go straight through.
+ */
+function holdChunk(chunkNumber: number) {
+	let release!: () => void
+	const held = new Promise<void>((resolve) => {
+		release = resolve
+	})
+	server.use(
+		http.put(`${API_BASE_URL}/upload/:uploadId/chunk/${chunkNumber}`, async () => {
+			await held
+		}),
+	)
+	return release
+}
+
+/** Lets pending requests and state updates settle before checking that nothing else happened. */
+async function settle() {
+	await act(() => new Promise((resolve) => setTimeout(resolve, 30)))
+}
+
+describe("useResumableUploader", () => {
+	it("initiates a session, uploads every chunk and completes it", async () => {
+		const { result } = renderUploader()
+		const file = textFile("notes.txt", "twenty bytes of text")
+
+		let results: Awaited<ReturnType<typeof result.current.uploadFromFormData>> = []
+		await act(async () => {
+			results = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+		})
+
+		expect(results).toHaveLength(1)
+		const [outcome] = results
+		expect(outcome.status).toBe("fulfilled")
+		if (outcome.status !== "fulfilled") return
+		expect(outcome.outcome.downloadUrl).toContain(`/d/${outcome.outcome.uploadId}`)
+
+		const uploadId = outcome.outcome.uploadId
+		expect(requests[0]).toBe("POST /upload/initiate")
+		expect(requests.filter((request) => request.startsWith("PUT")).sort()).toEqual([
+			`PUT /upload/${uploadId}/chunk/1`,
+			`PUT /upload/${uploadId}/chunk/2`,
+			`PUT /upload/${uploadId}/chunk/3`,
+		])
+		expect(requests.at(-1)).toBe(`POST /upload/${uploadId}/complete`)
+
+		expect(result.current.items[0]).toMatchObject({
+			status: "completed",
+			downloadUrl: outcome.outcome.downloadUrl,
+			error: null,
+		})
+		expect(result.current.isUploading).toBe(false)
+	})
+
+	it("maps chunk progress onto the item and the queue", async () => {
+		const { result } = renderUploader()
+		const file = textFile("progress.txt", "x".repeat(CHUNK_SIZE * 4))
+		const updates: UploadQueueProgress[] = []
+
+		await act(async () => {
+			await result.current.uploadFromFormData({
+				formData: formDataWith(file),
+				resume: false,
+				onProgress: (progress) => updates.push(progress),
+			})
+		})
+
+		expect(updates.length).toBeGreaterThan(1)
+		const percentages = updates.map((update) => update.percentage)
+		expect(percentages).toEqual([...percentages].sort((a, b) => a - b))
+		expect(updates.at(-1)).toMatchObject({
+			uploadedBytes: file.size,
+			totalBytes: file.size,
+			percentage: 100,
+			completedFiles: 1,
+			totalFiles: 1,
+		})
+		expect(result.current.items[0].progress).toMatchObject({
+			totalChunks: 4,
+			totalBytes: file.size,
+			percentage: 100,
+		})
+		expect(result.current.progress?.percentage).toBe(100)
+	})
+
+	it("re-sends chunks the server reports as mismatched before completing", async () => {
+		const { result } = renderUploader()
+		const file = textFile("repair.txt", "sixteen bytes!!!")
+		server.use(
+			http.post(
+				`${API_BASE_URL}/upload/:uploadId/complete`,
+				() => HttpResponse.json({ error: "Checksum mismatch", mismatched_chunks: [2] }, { status: 422 }),
+				{ once: true },
+			),
+		)
+
+		let status = ""
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			status = outcome.status
+		})
+
+		expect(status).toBe("fulfilled")
+		const completions = requests.filter((request) => request.endsWith("/complete"))
+		expect(completions).toHaveLength(2)
+		const repairIndex = requests.indexOf(completions[0]) + 1
+		expect(requests[repairIndex]).toMatch(/^PUT \/upload\/.+\/chunk\/2$/)
+	})
+
+	it("retries a repaired chunk whose request drops", async () => {
+		const { result } = renderUploader()
+		const file = textFile("flaky-repair.txt", "sixteen bytes!!!")
+		/** The first attempt at re-sending chunk 1 drops; every other request reaches the backend. */
+		let chunkOneAttempts = 0
+		server.use(
+			http.post(
+				`${API_BASE_URL}/upload/:uploadId/complete`,
+				() => HttpResponse.json({ error: "Checksum mismatch", mismatched_chunks: [1] }, { status: 422 }),
+				{ once: true },
+			),
+			http.put(`${API_BASE_URL}/upload/:uploadId/chunk/1`, () => {
+				chunkOneAttempts++
+				if (chunkOneAttempts === 2) return HttpResponse.error()
+			}),
+		)
+
+		let status = ""
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			status = outcome.status
+		})
+
+		expect(status).toBe("fulfilled")
+		expect(chunkOneAttempts).toBe(3)
+	})
+
+	it("re-sends a chunk the server rejects for a checksum mismatch", async () => {
+		const { result } = renderUploader()
+		const file = textFile("damaged.txt", "sixteen bytes!!!")
+		server.use(
+			http.put(
+				`${API_BASE_URL}/upload/:uploadId/chunk/2`,
+				() =>
+					HttpResponse.json({ error: "Chunk checksum mismatch", mismatched_chunks: [2] }, { status: 400 }),
+				{ once: true },
+			),
+		)
+
+		let status = ""
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			status = outcome.status
+		})
+
+		expect(status).toBe("fulfilled")
+		expect(requests.filter((request) => /\/chunk\/2$/.test(request))).toHaveLength(2)
+		expect(result.current.items[0].retryCount).toBe(1)
+	})
+
+	it("keeps the same upload callback when inline options are passed again", () => {
+		const { result, rerender } = renderUploader()
+		const { uploadFromFormData } = result.current
+
+		rerender()
+
+		expect(result.current.uploadFromFormData).toBe(uploadFromFormData)
+	})
+
+	it("stops sending chunks while paused and finishes after resuming", async () => {
+		const { result } = renderUploader({ maxParallelChunks: 1 })
+		const file = textFile("paused.txt", "twenty-four bytes total!")
+		const releaseChunkTwo = holdChunk(2)
+
+		let upload!: Promise<Awaited<ReturnType<typeof result.current.uploadFromFormData>>>
+		act(() => {
+			upload = result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+		})
+		await waitFor(() => expect(requests.some((request) => request.endsWith("/chunk/2"))).toBe(true))
+		act(() => {
+			result.current.pause()
+		})
+		releaseChunkTwo()
+		await settle()
+
+		expect(result.current.isPaused).toBe(true)
+		expect(requests.some((request) => request.endsWith("/chunk/3"))).toBe(false)
+		expect(requests.some((request) => request.endsWith("/complete"))).toBe(false)
+
+		act(() => {
+			result.current.resume()
+		})
+		const [outcome] = await act(() => upload)
+
+		expect(outcome.status).toBe("fulfilled")
+		expect(result.current.isPaused).toBe(false)
+		expect(requests.at(-1)).toMatch(/\/complete$/)
+	})
+
+	it("resumes a cancelled upload from the chunks the server already has", async () => {
+		const { result } = renderUploader({ maxParallelChunks: 1 })
+		const file = textFile("resumable.txt", "twenty-four bytes total!")
+		/** Chunk 3 is in flight when the upload is cancelled, and never reaches the server. */
+		let releaseChunkThree!: () => void
+		const chunkThreeHeld = new Promise<void>((resolve) => {
+			releaseChunkThree = resolve
+		})
+		server.use(
+			http.put(
+				`${API_BASE_URL}/upload/:uploadId/chunk/3`,
+				async () => {
+					await chunkThreeHeld
+					return HttpResponse.error()
+				},
+				{ once: true },
+			),
+		)
+
+		let firstRun!: Promise<unknown>
+		act(() => {
+			firstRun = result.current.uploadFromFormData({ formData: formDataWith(file) })
+		})
+		await waitFor(() => expect(requests.some((request) => request.endsWith("/chunk/3"))).toBe(true))
+		act(() => {
+			result.current.cancel()
+		})
+		await expect(firstRun).rejects.toMatchObject({ name: "AbortError" })
+		releaseChunkThree()
+		await waitFor(() => expect(result.current.isUploading).toBe(false))
+		const uploadId = requests.find((request) => request.startsWith("PUT"))?.split("/")[2]
+
+		requests = []
+		let status = ""
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file) })
+			status = outcome.status
+		})
+
+		expect(status).toBe("fulfilled")
+		expect(requests).toEqual([
+			`GET /upload/${uploadId}/status`,
+			`PUT /upload/${uploadId}/chunk/3`,
+			`POST /upload/${uploadId}/complete`,
+		])
+		expect(result.current.items[0].resumedFromChunk).toBe(3)
+	})
+
+	it("waits for the network to come back before sending chunks", async () => {
+		const { result } = renderUploader()
+		const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false)
+		const file = textFile("offline-start.txt", "sixteen bytes!!!")
+
+		let upload!: Promise<Awaited<ReturnType<typeof result.current.uploadFromFormData>>>
+		try {
+			act(() => {
+				upload = result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			})
+			await waitFor(() => expect(result.current.isWaitingForNetwork).toBe(true))
+			await settle()
+
+			expect(requests).toEqual([])
+
+			onLine.mockReturnValue(true)
+			act(() => {
+				window.dispatchEvent(new Event("online"))
+			})
+			const [outcome] = await act(() => upload)
+
+			expect(outcome.status).toBe("fulfilled")
+			expect(result.current.isWaitingForNetwork).toBe(false)
+		} finally {
+			onLine.mockRestore()
+		}
+	})
+
+	it("aborts the queue and clears its state on reset", async () => {
+		const { result } = renderUploader()
+		mockBackend.configure({ latencyMs: 50 })
+		const file = textFile("slow.txt", "y".repeat(CHUNK_SIZE * 10))
+
+		let upload!: Promise<unknown>
+		act(() => {
+			upload = result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+		})
+		await waitFor(() => expect(result.current.items[0]?.status).toBe("uploading"))
+
+		act(() => {
+			result.current.reset()
+		})
+
+		await expect(upload).rejects.toMatchObject({ name: "AbortError" })
+		expect(result.current.items).toEqual([])
+		expect(result.current.isUploading).toBe(false)
+		expect(requests.some((request) => request.endsWith("/complete"))).toBe(false)
+	})
+
+	it("normalises API failures into typed errors with a recovery step", async () => {
+		const { result } = renderUploader()
+		const file = textFile("setup.exe", "not allowed")
+
+		let reason: Error | null = null
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			reason = outcome.status === "rejected" ? outcome.reason : null
+		})
+
+		expect(reason).toBeInstanceOf(ApiError)
+		expect(reason).toMatchObject({ code: "unsupported_type", status: 415, detail: ".exe files aren't supported" })
+		expect(result.current.items[0]).toMatchObject({
+			status: "failed",
+			error: "The server doesn't accept this file type.",
+			recovery: expect.stringContaining("supported types"),
+		})
+		expect(result.current.error).toBe("The server doesn't accept this file type.")
+	})
+
+	it("reports dropped connections as network errors once retries run out", async () => {
+		const { result } = renderUploader()
+		mockBackend.configure({ dropRate: 1 })
+		const file = textFile("offline.txt", "dropped chunk")
+
+		let reason: Error | null = null
+		await act(async () => {
+			const [outcome] = await result.current.uploadFromFormData({ formData: formDataWith(file), resume: false })
+			reason = outcome.status === "rejected" ? outcome.reason : null
+		})
+
+		expect(reason).toMatchObject({ code: "network", status: null })
+		expect(result.current.items[0].status).toBe("failed")
+		expect(result.current.items[0].retryCount).toBeGreaterThan(0)
+	})
+
+	it("rejects a zip bundle bigger than the upload limit before initiating it", async () => {
+		const { result } = renderUploader()
+		const previousRules = getUploadRules()
+		updateUploadRules({ ...previousRules, maxFileSize: 20 })
+		const files = [textFile("a.txt", "x".repeat(16)), textFile("b.txt", "y".repeat(16))]
+
+		let reason: Error | null = null
+		try {
+			await act(async () => {
+				const [outcome] = await result.current.uploadFromFormData({
+					formData: formDataWith(...files),
+					resume: false,
+					bundle: true,
+				})
+				reason = outcome.status === "rejected" ? outcome.reason : null
+			})
+		} finally {
+			updateUploadRules(previousRules)
+		}
+
+		expect(reason).toMatchObject({ code: "file_too_large", recovery: expect.stringContaining("separately") })
+		expect(requests).toEqual([])
+	})
+
+	it("rejects a zip bundle before initiating it when the server doesn't accept zip files", async () => {
+		const { result } = renderUploader()
+		const previousRules = getUploadRules()
+		updateUploadRules({ ...previousRules, extensions: ["txt"], source: "server" })
+		const files = [textFile("a.txt", "first"), textFile("b.txt", "second")]
+
+		let reason: Error | null = null
+		try {
+			await act(async () => {
+				const [outcome] = await result.current.uploadFromFormData({
+					formData: formDataWith(...files),
+					resume: false,
+					bundle: true,
+				})
+				reason = outcome.status === "rejected" ? outcome.reason : null
+			})
+		} finally {
+			updateUploadRules(previousRules)
+		}
+
+		expect(reason).toMatchObject({ code: "unsupported_type", recovery: "Send the files separately." })
+		expect(requests).toEqual([])
+	})
+})
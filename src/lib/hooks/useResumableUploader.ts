@@ -1,422 +1,1042 @@
 import { useCallback, useMemo, useRef, useState } from "react"
-import Resumable from "resumablejs"
 
 import {
+	ApiError,
 	initiateUploadSession,
 	completeUploadSession,
-	axios_instance,
+	getUploadStatus,
+	getMismatchedChunks,
+	toApiError,
 } from "../api"
 import {
 	uploadInitiateRequestSchema,
-	type UploadInitiateRequest,
+	type SharePolicy,
 	type UploadCompleteResponse,
 } from "../schema"
+import {
+	chooseChunkSize,
+	recordChunkTiming,
+	DEFAULT_CHUNK_SIZE_BOUNDS,
+	type ChunkSizeBounds,
+} from "../bandwidth"
+import { createChunkEngine, createStreamChunkEngine, type ChunkEngine } from "../chunkEngine"
+import { digestEncryptedFile, digestFile } from "../checksum"
+import {
+	encodeEncryptionFragment,
+	encryptChunk,
+	encryptedSize,
+	exportEncryptionKey,
+	generateEncryptionKey,
+	importEncryptionKey,
+	ENCRYPTION_TAG_BYTES,
+} from "../encryption"
+import { createAdaptiveLimiter, type AdaptiveLimiter } from "../concurrency"
+import { relativePathOf } from "../fileTree"
+import { isNetworkAvailable, subscribeToNetworkChanges } from "../network"
+import { resolveRetryPolicy, type RetryPolicy } from "../retryPolicy"
+import { saveUploadHistoryEntry } from "../uploadHistoryStore"
+import { getUploadRules, maxSizeFor } from "../uploadRules"
+import { formatBytes } from "../format"
+import { archiveNameFor, createZipArchive, maxArchiveSize, zipEntriesFor, MAX_ZIP_ARCHIVE_BYTES } from "../zipArchive"
+import {
+	deleteUploadSession,
+	fingerprintFile,
+	firstMissingChunk,
+	getUploadSession,
+	saveUploadSession,
+	type StoredUploadSession,
+} from "../uploadSessionStore"
 
 /**
- * Enumerates the states a resumable chunk can report while uploading.
+ * Chunk size (5 MB) used before any bandwidth has been measured.
  */
-type ResumableChunkStatus = "pending" | "uploading" | "success" | "error"
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
 
 /**
- * Represents a single chunk in the Resumable.js upload queue.
+ * Default number of files uploaded side by side when the caller doesn't provide an override.
  */
-interface ResumableChunk {
-	offset: number
-	status(): ResumableChunkStatus
-}
+export const DEFAULT_MAX_CONCURRENT_FILES = 2
 
 /**
- * Wrapper describing the file managed by Resumable.js, including chunk metadata.
+ * Default ceiling for chunks sent in parallel when the caller doesn't provide an override.
  */
-interface ResumableFile {
-	size: number
-	chunks: ResumableChunk[]
-	progress(relative?: boolean): number
-}
+export const DEFAULT_MAX_PARALLEL_CHUNKS = 4
 
 /**
- * Minimal subset of the Resumable.js instance used by this hook.
+ * How many times completion may repair checksum mismatches before giving up.
  */
-interface ResumableInstance {
-	files: ResumableFile[]
-	addFile(file: File): void
-	on(event: "fileProgress", callback: (file: ResumableFile) => void): void
-	on(event: "fileRetry", callback: (file: ResumableFile) => void): void
-	on(event: "fileError", callback: (file: ResumableFile, message: unknown) => void): void
-	on(event: "cancel", callback: () => void): void
-	on(event: "fileSuccess", callback: (file: ResumableFile, message: string) => void): void
-	on(event: string, callback: (...args: unknown[]) => void): void
-	upload(): void
-	cancel(): void
-}
+const MAX_INTEGRITY_REPAIRS = 2
 
 /**
- * Configuration options accepted by the locally typed Resumable.js constructor.
+ * Tracks progress for a single file in the upload queue.
  */
-interface ResumableOptions {
-	target: string | ((file: ResumableFile, chunk: ResumableChunk) => string)
-	chunkSize?: number
-	forceChunkSize?: boolean
-	simultaneousUploads?: number
-	testChunks?: boolean
-	method?: "multipart" | "octet"
-	uploadMethod?: string
-	headers?: Record<string, string>
-	withCredentials?: boolean
-	parameterNamespace?: string
-	chunkNumberParameterName?: string
-	chunkSizeParameterName?: string
-	currentChunkSizeParameterName?: string
-	totalSizeParameterName?: string
-	typeParameterName?: string
-	identifierParameterName?: string
-	fileNameParameterName?: string
-	relativePathParameterName?: string
-	totalChunksParameterName?: string
-	query?: Record<string, string | number>
-	generateUniqueIdentifier?: (file: File) => string
+export interface UploadProgress {
+	uploadedBytes: number
+	totalBytes: number
+	percentage: number
+	/** Lowest chunk number the server hasn't confirmed yet. */
+	chunkNumber: number
+	completedChunks: number
+	totalChunks: number
 }
 
 /**
- * Constructor signature for the Resumable.js runtime object.
+ * Aggregate progress across every file in the upload queue.
  */
-interface ResumableConstructor {
-	new (options?: ResumableOptions): ResumableInstance | false
+export interface UploadQueueProgress {
+	uploadedBytes: number
+	totalBytes: number
+	percentage: number
+	completedFiles: number
+	totalFiles: number
 }
 
 /**
- * Default chunk size (5 MB) used when the caller doesn't provide an override.
- */
-export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
-
-/**
- * Tracks aggregate progress for the overall upload operation.
+ * Access rules in effect for a finished share link.
  */
-export interface UploadProgress {
-	uploadedBytes: number
-	totalBytes: number
-	percentage: number
-	chunkNumber: number
-	totalChunks: number
+export interface ShareLinkPolicy {
+	/** ISO timestamp after which the link stops working, or `null` when it doesn't expire. */
+	expiresAt: string | null
+	/** Downloads allowed before the link stops working, or `null` for no limit. */
+	maxDownloads: number | null
+	passwordProtected: boolean
 }
 
 /**
- * Shape of the successful upload response resolved by the hook.
+ * Shape of the successful upload response resolved for each file.
  */
 export interface UploadOutcome {
 	uploadId: string
 	downloadUrl: string
+	policy: ShareLinkPolicy
 	response: UploadCompleteResponse
 }
 
+/**
+ * Lifecycle states a queued file moves through.
+ */
+export type UploadItemStatus = "queued" | "uploading" | "completed" | "failed" | "aborted"
+
+/**
+ * Snapshot of a single file in the upload queue.
+ */
+export interface UploadQueueItem {
+	id: string
+	/** The file to upload; for a zip bundle, an empty placeholder named after the archive. */
+	file: File
+	/** Files zipped into this item's archive, or `null` for a plain file. */
+	entries: File[] | null
+	status: UploadItemStatus
+	progress: UploadProgress | null
+	/** Chunk the upload continued from when it resumed a persisted session. */
+	resumedFromChunk: number | null
+	/** Failed attempts that were retried so far, across all chunks of the file. */
+	retryCount: number
+	/** Epoch milliseconds when the next scheduled retry fires, if one is pending. */
+	nextRetryAt: number | null
+	downloadUrl: string | null
+	/** Access rules of the finished link. */
+	policy: ShareLinkPolicy | null
+	error: string | null
+	/** Suggested next step when the upload failed. */
+	recovery: string | null
+}
+
+/**
+ * Settled result for a single file, mirroring `Promise.allSettled`.
+ */
+export type UploadFileResult =
+	| { file: File; status: "fulfilled"; outcome: UploadOutcome }
+	| { file: File; status: "rejected"; reason: Error }
+
 /**
  * Parameters accepted by {@link uploadFromFormData}.
  */
 export interface UploadFromFormDataParams {
 	formData: FormData
-	metadata: UploadInitiateRequest
-	onProgress?: (progress: UploadProgress) => void
+	/** Continue persisted sessions for files picked again (defaults to `true`). */
+	resume?: boolean
+	/** Access rules for newly initiated sessions; resumed sessions keep the ones they started with. */
+	sharePolicy?: SharePolicy
+	/**
+	 * Encrypt newly initiated sessions in the browser; the key travels in the share link's
+	 * fragment. Resumed sessions keep the mode they started with.
+	 */
+	encrypt?: boolean
+	/**
+	 * Zip every file into one archive, built while it uploads, and share it behind a single
+	 * link. Archives can't be resumed after a reload or combined with `encrypt`.
+	 */
+	bundle?: boolean
+	onProgress?: (progress: UploadQueueProgress) => void
 }
 
 interface UseResumableUploaderOptions {
+	/** Fixed chunk size; when omitted the size adapts to measured bandwidth. */
 	chunkSize?: number
+	/** Range the adaptive chunk size is clamped to (defaults to the server's limits). */
+	chunkSizeBounds?: ChunkSizeBounds
+	/** Maximum number of files uploaded at the same time. */
+	maxConcurrentFiles?: number
+	/** Ceiling for chunks in flight across the queue; the actual level adapts below it. */
+	maxParallelChunks?: number
+	/** Overrides for the per-chunk retry policy; unset fields keep their defaults. */
+	retryPolicy?: Partial<RetryPolicy>
 }
 
 /**
- * Builds an Axios-style header map while prioritising binary uploads.
+ * Why the queue is held: the user pressed pause, or connectivity dropped.
  */
-function mergeAxiosHeaders(): Record<string, string> {
-	const sources = [
-		axios_instance.defaults.headers?.common ?? {},
-		axios_instance.defaults.headers?.put ?? {},
-	]
-	const merged: Record<string, string> = {}
-	sources.forEach((source) => {
-		Object.entries(source).forEach(([key, value]) => {
-			if (typeof value === "string" && value.trim().length > 0) {
-				merged[key] = value
+type PauseReason = "user" | "network"
+
+/**
+ * Queue-wide pause switch shared by every file worker and its chunk engine. The queue
+ * stays paused while at least one reason holds it.
+ */
+interface PauseControl {
+	/** Whether `reason` holds the queue, or any reason when omitted. */
+	isPaused(reason?: PauseReason): boolean
+	pause(reason: PauseReason): void
+	resume(reason: PauseReason): void
+	/** Resolves immediately when running, otherwise once the queue is resumed. */
+	waitUntilResumed(signal: AbortSignal): Promise<void>
+	/** Registers a chunk engine so pause/resume reach it; returns the matching cleanup. */
+	attach(engine: Pick<ChunkEngine, "pause" | "resume">): () => void
+}
+
+/**
+ * Per-file upload parameters shared by the queue workers.
+ */
+interface UploadFileParams {
+	file: File
+	chunkSize?: number
+	chunkSizeBounds: ChunkSizeBounds
+	resume: boolean
+	sharePolicy: SharePolicy
+	encrypt: boolean
+	signal: AbortSignal
+	pauseControl: PauseControl
+	chunkLimiter: AdaptiveLimiter
+	retryPolicy: RetryPolicy
+	onProgress: (progress: UploadProgress) => void
+	onResume: (chunkNumber: number) => void
+	/** A failed attempt will be repeated after `delayMs`. */
+	onRetry: (delayMs: number) => void
+}
+
+/**
+ * Parameters for uploading a zip bundle; the archive is streamed, so it can't resume or
+ * be encrypted.
+ */
+interface UploadArchiveParams extends Omit<UploadFileParams, "file" | "resume" | "encrypt" | "onResume"> {
+	files: File[]
+	archiveName: string
+}
+
+/**
+ * Normalises anything thrown during an upload into a classified {@link ApiError} (or an `AbortError`).
+ */
+function normalizeUploadError(rawError: unknown, signal: AbortSignal): ApiError | DOMException {
+	const isAbort = signal.aborted || (rawError instanceof DOMException && rawError.name === "AbortError")
+	if (isAbort) {
+		return rawError instanceof DOMException ? rawError : new DOMException("Upload aborted", "AbortError")
+	}
+	return toApiError(rawError)
+}
+
+/**
+ * Checks whether an error represents a user-initiated abort.
+ */
+function isAbortError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === "AbortError"
+}
+
+/**
+ * Runs `worker` for every entry of `items`, keeping at most `limit` invocations in flight.
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>) {
+	let cursor = 0
+	const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+		while (cursor < items.length) {
+			const index = cursor++
+			await worker(items[index], index)
+		}
+	})
+	await Promise.all(lanes)
+}
+
+/**
+ * Creates the pause switch for a single queue run. Pausing aborts in-flight chunk
+ * requests (the chunk engine re-queues them) while sessions and confirmed chunks stay intact.
+ */
+function createPauseControl(): PauseControl {
+	const reasons = new Set<PauseReason>()
+	const engines = new Set<Pick<ChunkEngine, "pause" | "resume">>()
+	const waiters = new Set<() => void>()
+
+	return {
+		isPaused: (reason) => (reason ? reasons.has(reason) : reasons.size > 0),
+		pause(reason) {
+			if (reasons.has(reason)) return
+			reasons.add(reason)
+			if (reasons.size > 1) return
+			engines.forEach((engine) => engine.pause())
+		},
+		resume(reason) {
+			if (!reasons.delete(reason) || reasons.size > 0) return
+			engines.forEach((engine) => engine.resume())
+			waiters.forEach((wake) => wake())
+			waiters.clear()
+		},
+		waitUntilResumed(signal) {
+			if (reasons.size === 0) return Promise.resolve()
+			return new Promise<void>((resolve, reject) => {
+				const onAbort = () => {
+					waiters.delete(wake)
+					reject(new DOMException("Upload aborted", "AbortError"))
+				}
+				const wake = () => {
+					signal.removeEventListener("abort", onAbort)
+					resolve()
+				}
+				if (signal.aborted) {
+					onAbort()
+					return
+				}
+				waiters.add(wake)
+				signal.addEventListener("abort", onAbort, { once: true })
+			})
+		},
+		attach(engine) {
+			engines.add(engine)
+			return () => {
+				engines.delete(engine)
 			}
-		})
+		},
+	}
+}
+
+/**
+ * Input bytes an item covers: the file itself, or everything zipped into its archive.
+ */
+function itemBytes(item: UploadQueueItem): number {
+	return item.entries ? item.entries.reduce((sum, file) => sum + file.size, 0) : item.file.size
+}
+
+/**
+ * Folds per-file progress into a single queue-wide snapshot.
+ */
+function computeQueueProgress(items: UploadQueueItem[]): UploadQueueProgress {
+	const totalBytes = items.reduce((sum, item) => sum + itemBytes(item), 0)
+	const uploadedBytes = items.reduce(
+		(sum, item) => sum + (item.status === "completed" ? itemBytes(item) : item.progress?.uploadedBytes ?? 0),
+		0,
+	)
+	const completedFiles = items.filter((item) => item.status === "completed").length
+	return {
+		uploadedBytes,
+		totalBytes,
+		percentage: totalBytes > 0 ? Math.min(100, Math.round((uploadedBytes / totalBytes) * 100)) : 0,
+		completedFiles,
+		totalFiles: items.length,
+	}
+}
+
+/**
+ * Runs a best-effort persistence call; storage failures must never break an upload.
+ */
+async function persistQuietly<T>(operation: () => Promise<T>): Promise<T | undefined> {
+	try {
+		return await operation()
+	} catch (storageError) {
+		if (import.meta.env.DEV) {
+			console.warn("Upload session persistence failed", storageError)
+		}
+		return undefined
+	}
+}
+
+/**
+ * Replaces the locally persisted chunk list with what the server reports for the session.
+ * Resolves `null` when the server no longer knows the session; keeps local state when
+ * the probe itself fails so a flaky status call doesn't force a full re-upload.
+ */
+async function reconcileWithServer(stored: StoredUploadSession, signal: AbortSignal): Promise<StoredUploadSession | null> {
+	try {
+		const status = await getUploadStatus(stored.uploadId, signal)
+		const receivedChunks = status.received_chunks
+			.filter((chunkNumber) => chunkNumber <= stored.totalChunks)
+			.sort((a, b) => a - b)
+		const reconciled = {
+			...stored,
+			completedChunks: Array.from(new Set(receivedChunks)),
+			updatedAt: Date.now(),
+		}
+		await persistQuietly(() => saveUploadSession(reconciled))
+		return reconciled
+	} catch (statusError) {
+		if (signal.aborted) throw statusError
+		const { code } = toApiError(statusError)
+		if (code === "not_found" || code === "session_expired") {
+			return null
+		}
+		if (import.meta.env.DEV) {
+			console.warn("Upload status probe failed; resuming from local state", statusError)
+		}
+		return stored
+	}
+}
+
+/**
+ * Resolves the session a file should upload into: a persisted one when resuming,
+ * otherwise a freshly initiated one that is persisted straight away.
+ */
+async function resolveUploadSession(
+	file: File,
+	requestedChunkSize: number | undefined,
+	chunkSizeBounds: ChunkSizeBounds,
+	resume: boolean,
+	sharePolicy: SharePolicy,
+	encrypt: boolean,
+	signal: AbortSignal,
+) {
+	if (resume) {
+		const stored = await persistQuietly(() => getUploadSession(file))
+		if (stored && stored.totalSize === file.size) {
+			const reconciled = await reconcileWithServer(stored, signal)
+			if (reconciled) {
+				return { session: reconciled, resumed: true }
+			}
+			await persistQuietly(() => deleteUploadSession(file))
+		}
+	}
+
+	/** Compute upload metadata expected by the initiation endpoint, including the proposed chunk size. */
+	const proposedChunkSize = requestedChunkSize ?? chooseChunkSize(DEFAULT_CHUNK_SIZE, chunkSizeBounds)
+	/** Encrypted chunks grow by their authentication tag, and the server only ever sees those. */
+	const encryptionKey = encrypt ? await generateEncryptionKey() : null
+	const wireOverhead = encryptionKey ? ENCRYPTION_TAG_BYTES : 0
+	const relativePath = relativePathOf(file)
+	const effectiveMetadata = uploadInitiateRequestSchema.parse({
+		file_name: file.name,
+		total_size: encryptionKey ? encryptedSize(file.size, proposedChunkSize) : file.size,
+		total_chunks: Math.max(1, Math.ceil(file.size / proposedChunkSize)),
+		chunk_size: proposedChunkSize + wireOverhead,
+		...sharePolicy,
+		...(encryptionKey ? { encrypted: true } : {}),
+		...(relativePath ? { relative_path: relativePath } : {}),
 	})
-	merged["Content-Type"] = "application/octet-stream"
-	return merged
+	const initiateResponse = await initiateUploadSession(effectiveMetadata, signal)
+	/** The backend has the final say; it echoes `chunk_size` when it picked another one. */
+	const chunkSize = initiateResponse.chunk_size !== undefined
+		? initiateResponse.chunk_size - wireOverhead
+		: proposedChunkSize
+	/** The announced ciphertext size depends on the chunk layout, so it can't be renegotiated. */
+	if (encryptionKey && chunkSize !== proposedChunkSize) {
+		throw new Error("The server changed the chunk size, which encrypted uploads don't support")
+	}
+	const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize))
+	const now = Date.now()
+	const session: StoredUploadSession = {
+		fingerprint: fingerprintFile(file),
+		uploadId: initiateResponse.upload_id,
+		fileName: file.name,
+		totalSize: file.size,
+		chunkSize,
+		totalChunks,
+		completedChunks: [],
+		...(encryptionKey ? { encryptionKey: await exportEncryptionKey(encryptionKey) } : {}),
+		createdAt: now,
+		updatedAt: now,
+	}
+	await persistQuietly(() => saveUploadSession(session))
+	return { session, resumed: false }
+}
+
+/**
+ * Reads the link policy the backend echoed on completion. Older backends don't echo it,
+ * in which case the requested policy is reported for sessions initiated in this run.
+ */
+function resolveLinkPolicy(
+	completion: UploadCompleteResponse,
+	requested: SharePolicy | null,
+	initiatedAt: number,
+): ShareLinkPolicy {
+	const requestedExpiry = requested?.expires_in
+		? new Date(initiatedAt + requested.expires_in * 1000).toISOString()
+		: null
+	return {
+		expiresAt: completion.expires_at !== undefined ? completion.expires_at : requestedExpiry,
+		maxDownloads: completion.max_downloads !== undefined ? completion.max_downloads : requested?.max_downloads ?? null,
+		passwordProtected: completion.password_protected ?? Boolean(requested?.password),
+	}
+}
+
+/**
+ * Uploads a single file: initiates (or resumes) its session, streams the chunks the
+ * server doesn't hold yet through a chunk engine and finalises the session once every
+ * chunk has been accepted.
+ */
+async function uploadFile({
+	file,
+	chunkSize: requestedChunkSize,
+	chunkSizeBounds,
+	resume,
+	sharePolicy,
+	encrypt,
+	signal,
+	pauseControl,
+	chunkLimiter,
+	retryPolicy,
+	onProgress,
+	onResume,
+	onRetry,
+}: UploadFileParams): Promise<UploadOutcome> {
+	try {
+		const { session, resumed } = await resolveUploadSession(
+			file,
+			requestedChunkSize,
+			chunkSizeBounds,
+			resume,
+			sharePolicy,
+			encrypt,
+			signal,
+		)
+		const { uploadId, chunkSize, totalChunks } = session
+		const encryptionKey = session.encryptionKey ? await importEncryptionKey(session.encryptionKey) : null
+		const completedChunks = new Set(session.completedChunks)
+
+		/** Chunks confirmed by the server are skipped; report where the upload picks up. */
+		const startChunk = firstMissingChunk(session)
+		const confirmedBytes = session.completedChunks.reduce(
+			(sum, chunkNumber) => sum + Math.max(0, Math.min(chunkSize, file.size - (chunkNumber - 1) * chunkSize)),
+			0,
+		)
+		if (resumed) {
+			onResume(startChunk)
+		}
+
+		/** Hash the whole file (as the server will store it) in the background while chunks go out. */
+		const fileDigest = encryptionKey ? digestEncryptedFile(file, encryptionKey, chunkSize) : digestFile(file)
+		fileDigest.catch(() => undefined)
+
+		/** Encrypts a chunk's bytes for end-to-end encrypted sessions. */
+		const transformChunk = encryptionKey
+			? (chunkNumber: number, chunk: Blob) => encryptChunk(encryptionKey, chunkNumber, chunk, chunkNumber === totalChunks)
+			: undefined
+
+		const emitProgress = (uploadedBytes: number) => {
+			const chunkNumber = firstMissingChunk({ completedChunks: Array.from(completedChunks), totalChunks })
+			onProgress({
+				uploadedBytes,
+				totalBytes: file.size,
+				percentage: file.size > 0 ? Math.min(100, Math.round((uploadedBytes / file.size) * 100)) : 100,
+				chunkNumber: Math.min(Math.max(chunkNumber, 1), totalChunks),
+				completedChunks: completedChunks.size,
+				totalChunks,
+			})
+		}
+
+		emitProgress(confirmedBytes)
+
+		/** Persist newly confirmed chunks so a reload can resume after them. */
+		const recordCompletedChunk = (chunkNumber: number, bytes: number, durationMs: number) => {
+			recordChunkTiming(bytes, durationMs)
+			if (completedChunks.has(chunkNumber)) return
+			completedChunks.add(chunkNumber)
+			void persistQuietly(() =>
+				saveUploadSession({
+					...session,
+					completedChunks: Array.from(completedChunks).sort((a, b) => a - b),
+					updatedAt: Date.now(),
+				}),
+			)
+		}
+
+		/**
+		 * Sends every chunk not yet in `completedChunks` through a chunk engine, so retries,
+		 * the shared limiter and the queue's pause control all apply.
+		 */
+		const sendMissingChunks = async () => {
+			const engine = createChunkEngine({
+				uploadId,
+				file,
+				chunkSize,
+				totalChunks,
+				completedChunks,
+				limiter: chunkLimiter,
+				signal,
+				retryPolicy,
+				transformChunk,
+				onProgress: emitProgress,
+				onChunkComplete: recordCompletedChunk,
+				onRetry: (_chunkNumber, _attempt, delayMs) => onRetry(delayMs),
+			})
+			const detachPauseControl = pauseControl.attach(engine)
+			try {
+				/** A queue paused while this file was initiating holds the engine back until `resume()`. */
+				if (pauseControl.isPaused()) {
+					engine.pause()
+				}
+				await engine.done
+			} finally {
+				detachPauseControl()
+			}
+		}
+
+		/**
+		 * Finalises the session with the whole-file checksum. When the backend reports chunks
+		 * whose stored bytes don't match, only those are re-sent before trying again.
+		 */
+		const finalize = async (): Promise<UploadOutcome> => {
+			const fileSha256 = await fileDigest
+			for (let repairs = 0; ; repairs++) {
+				try {
+					const completion = await completeUploadSession(uploadId, { file_sha256: fileSha256 }, signal)
+					await persistQuietly(() => deleteUploadSession(file))
+					/** The key rides in the fragment, which browsers never send to the server. */
+					const downloadUrl = encryptionKey
+						? `${completion.download_url}#${await encodeEncryptionFragment({ key: encryptionKey, chunkSize })}`
+						: completion.download_url
+					const policy = resolveLinkPolicy(completion, resumed ? null : sharePolicy, session.createdAt)
+					await persistQuietly(() =>
+						saveUploadHistoryEntry({
+							uploadId,
+							fileName: file.name,
+							totalSize: file.size,
+							downloadUrl,
+							...policy,
+							encrypted: encryptionKey !== null,
+							uploadedAt: Date.now(),
+						}),
+					)
+					return { uploadId, downloadUrl, policy, response: completion }
+				} catch (completionError) {
+					const mismatchedChunks = getMismatchedChunks(completionError)
+					if (!mismatchedChunks || repairs >= MAX_INTEGRITY_REPAIRS) {
+						throw completionError
+					}
+					onRetry(0)
+					mismatchedChunks.forEach((chunkNumber) => completedChunks.delete(chunkNumber))
+					await sendMissingChunks()
+				}
+			}
+		}
+
+		/** Every chunk already landed in a previous session, so only finalisation is left. */
+		if (startChunk > totalChunks) {
+			return await finalize()
+		}
+
+		await sendMissingChunks()
+		return await finalize()
+	} catch (rawError) {
+		throw normalizeUploadError(rawError, signal)
+	}
+}
+
+/**
+ * Uploads several files as one zip archive, compressed in a worker while the chunks go
+ * out. The archive's size is unknown until it's finished, so the session is initiated as
+ * streaming and the final size travels with the completion request. Progress is reported
+ * against the input files, scaled by how much of the produced archive has been confirmed.
+ */
+async function uploadArchive({
+	files,
+	archiveName,
+	chunkSize: requestedChunkSize,
+	chunkSizeBounds,
+	sharePolicy,
+	signal,
+	pauseControl,
+	chunkLimiter,
+	retryPolicy,
+	onProgress,
+	onRetry,
+}: UploadArchiveParams): Promise<UploadOutcome> {
+	let detachPauseControl: (() => void) | null = null
+
+	try {
+		/** Fallback rules are placeholders, so only rules from the server can rule zip out. */
+		const rules = getUploadRules()
+		if (rules.source !== "fallback" && !rules.extensions.includes("zip")) {
+			throw new ApiError("unsupported_type", {
+				message: "The server doesn't accept zip files, so these files can't be sent as one bundle.",
+				recovery: "Send the files separately.",
+			})
+		}
+
+		/** The archive's size is only known once it's built, so check the worst case up front. */
+		const entries = zipEntriesFor(files)
+		const archiveLimit = Math.min(maxSizeFor("zip", rules), MAX_ZIP_ARCHIVE_BYTES)
+		const inputBytes = files.reduce((sum, file) => sum + file.size, 0)
+		if (maxArchiveSize(entries) > archiveLimit) {
+			throw new ApiError("file_too_large", {
+				message: `These files add up to ${formatBytes(inputBytes)}, more than a zip bundle can hold (${formatBytes(archiveLimit)}).`,
+				recovery: "Send the files separately, or bundle fewer of them.",
+			})
+		}
+
+		const proposedChunkSize = requestedChunkSize ?? chooseChunkSize(DEFAULT_CHUNK_SIZE, chunkSizeBounds)
+		const initiateResponse = await initiateUploadSession(
+			uploadInitiateRequestSchema.parse({
+				file_name: archiveName,
+				chunk_size: proposedChunkSize,
+				streaming: true,
+				...sharePolicy,
+			}),
+			signal,
+		)
+		const uploadId = initiateResponse.upload_id
+		const chunkSize = initiateResponse.chunk_size ?? proposedChunkSize
+		const initiatedAt = Date.now()
+
+		let readBytes = 0
+		let producedBytes = 0
+		let producedChunks = 0
+		let completedChunks = 0
+		let sentBytes = 0
+
+		const emitProgress = () => {
+			const uploadedBytes = producedBytes > 0 ? Math.round(readBytes * Math.min(1, sentBytes / producedBytes)) : 0
+			onProgress({
+				uploadedBytes,
+				totalBytes: inputBytes,
+				percentage: inputBytes > 0 ? Math.min(100, Math.round((uploadedBytes / inputBytes) * 100)) : 100,
+				chunkNumber: Math.max(1, Math.min(completedChunks + 1, producedChunks)),
+				completedChunks,
+				totalChunks: Math.max(1, producedChunks),
+			})
+		}
+
+		const archive = createZipArchive(entries, (bytes) => {
+			readBytes = bytes
+		})
+		const engine = createStreamChunkEngine({
+			uploadId,
+			source: archive.stream,
+			chunkSize,
+			limiter: chunkLimiter,
+			signal,
+			retryPolicy,
+			onChunkRead: (_chunkNumber, bytes) => {
+				producedChunks++
+				producedBytes += bytes
+			},
+			onProgress: (uploadedBytes) => {
+				sentBytes = uploadedBytes
+				emitProgress()
+			},
+			onChunkComplete: (_chunkNumber, bytes, durationMs) => {
+				recordChunkTiming(bytes, durationMs)
+				completedChunks++
+			},
+			onRetry: (_chunkNumber, _attempt, delayMs) => onRetry(delayMs),
+		})
+		detachPauseControl = pauseControl.attach(engine)
+		if (pauseControl.isPaused()) {
+			engine.pause()
+		}
+
+		const { totalSize, totalChunks } = await engine.done
+		const completion = await completeUploadSession(
+			uploadId,
+			{ file_sha256: await archive.digest, total_size: totalSize, total_chunks: totalChunks },
+			signal,
+		)
+		const policy = resolveLinkPolicy(completion, sharePolicy, initiatedAt)
+		await persistQuietly(() =>
+			saveUploadHistoryEntry({
+				uploadId,
+				fileName: archiveName,
+				totalSize,
+				downloadUrl: completion.download_url,
+				...policy,
+				encrypted: false,
+				uploadedAt: Date.now(),
+			}),
+		)
+		return { uploadId, downloadUrl: completion.download_url, policy, response: completion }
+	} catch (rawError) {
+		throw normalizeUploadError(rawError, signal)
+	} finally {
+		detachPauseControl?.()
+	}
 }
 
 /**
- * Hook that wraps Resumable.js to provide resumable file uploads with progress updates.
+ * Hook that uploads a queue of files, each in its own resumable session, with per-file
+ * and aggregate progress updates.
  */
 export function useResumableUploader(options: UseResumableUploaderOptions = {}) {
-	const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
-	const [progress, setProgress] = useState<UploadProgress | null>(null)
+	const chunkSize = options.chunkSize
+	const maxConcurrentFiles = Math.max(1, options.maxConcurrentFiles ?? DEFAULT_MAX_CONCURRENT_FILES)
+	const maxParallelChunks = Math.max(1, options.maxParallelChunks ?? DEFAULT_MAX_PARALLEL_CHUNKS)
+	/**
+	 * Callers may pass the object options inline, so they're rebuilt from their values; otherwise
+	 * every render would produce a new upload callback.
+	 */
+	const { min: minChunkSize, max: maxChunkSize } = options.chunkSizeBounds ?? DEFAULT_CHUNK_SIZE_BOUNDS
+	const chunkSizeBounds = useMemo(() => ({ min: minChunkSize, max: maxChunkSize }), [minChunkSize, maxChunkSize])
+	const retryPolicyKey = JSON.stringify(options.retryPolicy ?? {})
+	const retryPolicy = useMemo(
+		() => resolveRetryPolicy(JSON.parse(retryPolicyKey) as Partial<RetryPolicy>),
+		[retryPolicyKey],
+	)
+	const [items, setItems] = useState<UploadQueueItem[]>([])
 	const [error, setError] = useState<string | null>(null)
 	const [isUploading, setIsUploading] = useState(false)
+	const [isPaused, setIsPaused] = useState(false)
+	/** Set while connectivity is lost and the queue is suspended until it returns. */
+	const [isWaitingForNetwork, setIsWaitingForNetwork] = useState(false)
 	const abortControllerRef = useRef<AbortController | null>(null)
-	const resumableRef = useRef<ResumableInstance | null>(null)
+	const pauseControlRef = useRef<PauseControl | null>(null)
+	const itemSequenceRef = useRef(0)
 
 	/**
-	 * Aborts the active upload (if any) and clears hook state back to idle.
+	 * Aborts every active upload (if any) and clears hook state back to idle.
 	 */
 	const reset = useCallback(() => {
-		/** Reset cancellation handles and any persisted progress snapshot. */
+		/** Reset cancellation handles and any persisted queue snapshot. */
 		abortControllerRef.current?.abort()
 		abortControllerRef.current = null
-		resumableRef.current?.cancel()
-		resumableRef.current = null
-		setProgress(null)
+		pauseControlRef.current = null
+		setItems([])
 		setError(null)
 		setIsUploading(false)
+		setIsPaused(false)
+		setIsWaitingForNetwork(false)
+	}, [])
+
+	/**
+	 * Aborts every active upload but keeps the queue, so finished links stay available and
+	 * unfinished files show as cancelled. Persisted sessions are kept for a later resume.
+	 */
+	const cancel = useCallback(() => {
+		abortControllerRef.current?.abort()
+	}, [])
+
+	/**
+	 * Suspends the active queue. In-flight chunks are dropped and re-sent on resume;
+	 * upload IDs and confirmed chunks are kept.
+	 */
+	const pause = useCallback(() => {
+		const pauseControl = pauseControlRef.current
+		if (!pauseControl || pauseControl.isPaused("user")) return
+		pauseControl.pause("user")
+		setIsPaused(true)
 	}, [])
 
 	/**
-	 * Starts a new resumable upload based on the provided `FormData` and metadata.
+	 * Continues a paused queue from the chunks that are still missing.
+	 */
+	const resume = useCallback(() => {
+		const pauseControl = pauseControlRef.current
+		if (!pauseControl || !pauseControl.isPaused("user")) return
+		pauseControl.resume("user")
+		setIsPaused(false)
+	}, [])
+
+	/**
+	 * Queues every file found under the `files` key of the provided `FormData` and uploads
+	 * them with at most `maxConcurrentFiles` sessions running at once.
 	 */
 	const uploadFromFormData = useCallback(
-		async ({ formData, metadata, onProgress }: UploadFromFormDataParams): Promise<UploadOutcome> => {
+		async ({
+			formData,
+			resume = true,
+			sharePolicy = {},
+			encrypt = false,
+			bundle = false,
+			onProgress,
+		}: UploadFromFormDataParams): Promise<UploadFileResult[]> => {
 			/** Guard against concurrent upload invocations. */
 			if (isUploading) {
 				throw new Error("Another upload is already in progress")
 			}
 
-			/** Extract the first file from the `FormData` payload. */
 			const files = formData.getAll("files").filter((item): item is File => item instanceof File)
 			if (!files.length) {
 				throw new Error("No files provided for upload")
 			}
-
-			const file = files[0]
-			/** Compute upload metadata expected by the initiation endpoint. */
-			const computedTotalChunks = Math.max(1, Math.ceil(file.size / chunkSize))
-			const effectiveMetadata = uploadInitiateRequestSchema.parse({
-				file_name: metadata.file_name,
-				total_size: file.size,
-				total_chunks: computedTotalChunks,
-			})
-			/** Resolve the base API URL once to avoid repeated string concatenations. */
-			const baseURL = axios_instance.defaults.baseURL?.replace(/\/$/, "")
-			if (!baseURL) {
-				throw new Error("Upload service base URL is not configured")
+			if (bundle && encrypt) {
+				throw new Error("Zip bundles can't be encrypted")
 			}
 
-			/** Instantiate per-upload AbortController and seed initial progress. */
+			/** Instantiate a queue-wide AbortController and seed every item as queued. */
 			const abortController = new AbortController()
 			abortControllerRef.current = abortController
+			const pauseControl = createPauseControl()
+			pauseControlRef.current = pauseControl
+			/** One limiter per run: every file in the queue shares the same link. */
+			const chunkLimiter = createAdaptiveLimiter({ max: maxParallelChunks })
 			setIsUploading(true)
+			setIsPaused(false)
 			setError(null)
 
-			const initialProgress: UploadProgress = {
-				uploadedBytes: 0,
-				totalBytes: file.size,
-				percentage: 0,
-				chunkNumber: 1,
-				totalChunks: computedTotalChunks,
-			}
-			setProgress(initialProgress)
-			onProgress?.(initialProgress)
-
-			/** Placeholders for the active Resumable instance and abort listener. */
-			let resumable: ResumableInstance | null = null
-			let abortListener: (() => void) | null = null
-
-			try {
-				const initiateResponse = await initiateUploadSession(effectiveMetadata, abortController.signal)
-				const uploadId = initiateResponse.upload_id
-				const headers = mergeAxiosHeaders()
-
-				/** Configure Resumable.js to target the backend chunk ingestion endpoint. */
-				const maybeResumable = new (Resumable as unknown as ResumableConstructor)({
-					chunkSize,
-					forceChunkSize: true,
-					simultaneousUploads: 1,
-					testChunks: false,
-					method: "octet",
-					uploadMethod: "PUT",
-					target(_file: ResumableFile, chunk: ResumableChunk) {
-						const chunkNumber = chunk.offset + 1
-						return `${baseURL}/upload/${uploadId}/chunk/${chunkNumber}`
-					},
-					query: {},
-					headers,
-					withCredentials: axios_instance.defaults.withCredentials ?? false,
-					parameterNamespace: "",
-					chunkNumberParameterName: "",
-					chunkSizeParameterName: "",
-					currentChunkSizeParameterName: "",
-					totalSizeParameterName: "",
-					typeParameterName: "",
-					identifierParameterName: "",
-					fileNameParameterName: "",
-					relativePathParameterName: "",
-					totalChunksParameterName: "",
-					generateUniqueIdentifier: () => uploadId,
-				})
-
-				if (!maybeResumable) {
-					throw new Error("Resumable.js is not supported in this browser")
+			/** Suspend while offline and pick up again once connectivity returns, without touching sessions. */
+			const applyNetworkState = (available: boolean) => {
+				if (available) {
+					pauseControl.resume("network")
+				} else {
+					pauseControl.pause("network")
 				}
+				setIsWaitingForNetwork(!available)
+			}
+			applyNetworkState(isNetworkAvailable())
+			const unsubscribeNetwork = subscribeToNetworkChanges(applyNetworkState)
 
-				const activeResumable = maybeResumable
-				resumable = activeResumable
-				resumableRef.current = activeResumable
+			/** A bundle is a single item whose archive is built from every selected file. */
+			const sources = bundle
+				? [{ file: new File([], archiveNameFor(files), { type: "application/zip" }), entries: files }]
+				: files.map((file) => ({ file, entries: null }))
+			const queue: UploadQueueItem[] = sources.map(({ file, entries }) => ({
+				id: `upload-${++itemSequenceRef.current}`,
+				file,
+				entries,
+				status: "queued",
+				progress: null,
+				resumedFromChunk: null,
+				retryCount: 0,
+				nextRetryAt: null,
+				downloadUrl: null,
+				policy: null,
+				error: null,
+				recovery: null,
+			}))
+			setItems(queue)
 
-				/** Abort immediately if the upload was cancelled mid-initialisation. */
-				if (abortController.signal.aborted) {
-					activeResumable.cancel()
-					throw new DOMException("Upload aborted", "AbortError")
-				}
-
-				/** Keep the resumable transport aligned with external abort signals. */
-				abortListener = () => {
-					activeResumable.cancel()
-				}
-				abortController.signal.addEventListener("abort", abortListener)
-
-				/** Translate Resumable.js file progress into UI snapshot values. */
-				const updateProgress = (resumableFile: ResumableFile) => {
-					const chunks = resumableFile.chunks ?? []
-					const totalChunks = chunks.length || computedTotalChunks
-					const completedChunks = chunks.reduce(
-						(count, chunk) => (chunk.status() === "success" ? count + 1 : count),
-						0,
-					)
-					const uploadingChunk = chunks.find((chunk) => chunk.status() === "uploading")
-					const nextChunk = uploadingChunk ? uploadingChunk.offset + 1 : completedChunks + 1
-					const boundedChunkNumber = Math.min(Math.max(nextChunk, 1), totalChunks || computedTotalChunks)
-					const ratio = resumableFile.progress()
-					const uploadedBytes = Math.round(ratio * resumableFile.size)
-					const percentage = Math.min(100, Math.round(ratio * 100))
-
-					const snapshot: UploadProgress = {
-						uploadedBytes,
-						totalBytes: resumableFile.size,
-						percentage,
-						chunkNumber: boundedChunkNumber || totalChunks || computedTotalChunks,
-						totalChunks: totalChunks || computedTotalChunks,
-					}
-
-					setProgress(snapshot)
-					onProgress?.(snapshot)
-				}
+			/** Mutable mirror of the queue so aggregate progress can be computed synchronously. */
+			const snapshot = new Map(queue.map((item) => [item.id, item]))
+			const updateItem = (id: string, patch: Partial<UploadQueueItem>) => {
+				const current = snapshot.get(id)
+				if (!current) return
+				snapshot.set(id, { ...current, ...patch })
+				setItems((previous) => previous.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+			}
 
-				const outcome = await new Promise<UploadOutcome>((resolve, reject) => {
-					let settled = false
-					const resumableInstance = activeResumable
+			const emitQueueProgress = () => {
+				if (!onProgress) return
+				onProgress(computeQueueProgress(Array.from(snapshot.values())))
+			}
 
-					/** Ensure the promise resolves or rejects only once. */
-					const finalizeSuccess = (value: UploadOutcome) => {
-						if (settled) return
-						settled = true
-						resolve(value)
-					}
+			const results: UploadFileResult[] = new Array(queue.length)
 
-					const finalizeFailure = (reason: unknown) => {
-						if (settled) return
-						settled = true
-						reject(reason)
+			try {
+				await runWithConcurrency(queue, maxConcurrentFiles, async (item, index) => {
+					/** Hold queued files back while the queue is paused. */
+					await pauseControl.waitUntilResumed(abortController.signal).catch(() => undefined)
+					if (abortController.signal.aborted) {
+						updateItem(item.id, { status: "aborted", error: "Upload aborted" })
+						results[index] = { file: item.file, status: "rejected", reason: new DOMException("Upload aborted", "AbortError") }
+						return
 					}
 
-					/** Wire Resumable.js lifecycle events to state updates and finalisation. */
-					resumableInstance.on("fileProgress", (fileProgress) => {
-						updateProgress(fileProgress)
-					})
-
-					resumableInstance.on("fileRetry", () => {
-						setError(null)
-					})
-
-					resumableInstance.on("fileError", (_file, message) => {
-						const errorMessage =
-							typeof message === "string" && message.length > 0
-								? message
-								: message instanceof Error
-									? message.message
-									: "Failed to upload file"
-						setError(errorMessage)
-						finalizeFailure(new Error(errorMessage))
-					})
-
-					resumableInstance.on("cancel", () => {
-						setError("Upload aborted")
-						finalizeFailure(new DOMException("Upload aborted", "AbortError"))
-					})
-
-					resumableInstance.on("fileSuccess", async (successfulFile) => {
-						updateProgress(successfulFile)
-						try {
-							const completion = await completeUploadSession(uploadId, abortController.signal)
-							finalizeSuccess({
-								uploadId,
-								downloadUrl: completion.download_url,
-								response: completion,
+					updateItem(item.id, { status: "uploading", error: null, recovery: null })
+					try {
+						const transfer = {
+							chunkSize,
+							chunkSizeBounds,
+							sharePolicy,
+							signal: abortController.signal,
+							pauseControl,
+							chunkLimiter,
+							retryPolicy,
+							onProgress: (progress: UploadProgress) => {
+								updateItem(item.id, { progress })
+								emitQueueProgress()
+							},
+							onRetry: (delayMs: number) => {
+								const current = snapshot.get(item.id)
+								const retryAt = Date.now() + delayMs
+								/** Parallel chunks may back off at once; surface the soonest pending attempt. */
+								const pendingRetryAt = current?.nextRetryAt && current.nextRetryAt > Date.now() ? current.nextRetryAt : null
+								updateItem(item.id, {
+									error: null,
+									retryCount: (current?.retryCount ?? 0) + 1,
+									nextRetryAt: pendingRetryAt === null ? retryAt : Math.min(pendingRetryAt, retryAt),
+								})
+							},
+						}
+						const outcome = item.entries
+							? await uploadArchive({ ...transfer, files: item.entries, archiveName: item.file.name })
+							: await uploadFile({
+								...transfer,
+								file: item.file,
+								resume,
+								encrypt,
+								onResume: (chunkNumber) => {
+									updateItem(item.id, { resumedFromChunk: chunkNumber })
+								},
 							})
-						} catch (completionError) {
-							const normalized =
-								completionError instanceof Error
-									? completionError
-									: new Error(String(completionError ?? "Failed to finalize upload"))
+						updateItem(item.id, {
+							status: "completed",
+							downloadUrl: outcome.downloadUrl,
+							policy: outcome.policy,
+							nextRetryAt: null,
+						})
+						results[index] = { file: item.file, status: "fulfilled", outcome }
+					} catch (fileError) {
+						const normalized = normalizeUploadError(fileError, abortController.signal)
+						const aborted = isAbortError(normalized)
+						updateItem(item.id, {
+							status: aborted ? "aborted" : "failed",
+							error: aborted ? "Upload aborted" : normalized.message,
+							recovery: normalized instanceof ApiError ? normalized.recovery : null,
+							nextRetryAt: null,
+						})
+						if (!aborted) {
 							setError(normalized.message)
-							finalizeFailure(normalized)
 						}
-					})
-
-					resumableInstance.addFile(file)
-					const trackedFile = resumableInstance.files[resumableInstance.files.length - 1]
-					if (!trackedFile) {
-						finalizeFailure(new Error("Failed to queue file for upload"))
-						return
+						results[index] = { file: item.file, status: "rejected", reason: normalized }
 					}
-
-					/** Kick off the upload pipeline and emit the latest snapshot. */
-					updateProgress(trackedFile)
-					resumableInstance.upload()
+					emitQueueProgress()
 				})
 
-			
-                setError(null)
-				return outcome
-			} catch (rawError) {
-				/** Normalize errors (including aborts) so the UI can display clear feedback. */
-				const isAbort = abortController.signal.aborted || (rawError instanceof DOMException && rawError.name === "AbortError")
-				const normalizedError = isAbort
-					? rawError instanceof DOMException
-						? rawError
-						: new DOMException("Upload aborted", "AbortError")
-					: rawError instanceof Error
-						? rawError
-						: new Error(String(rawError ?? "Failed to upload file"))
-
-				if (isAbort) {
+				if (abortController.signal.aborted) {
 					setError("Upload aborted")
-				} else {
-					setError(normalizedError.message)
+					throw new DOMException("Upload aborted", "AbortError")
 				}
 
-				resumable?.cancel()
-				throw normalizedError
+				return results
 			} finally {
-				/** Always detach listeners and reset hook state after completion. */
-				if (abortListener) {
-					abortController.signal.removeEventListener("abort", abortListener)
+				/** Always release the abort handle and reset the busy flag after the queue drains. */
+				unsubscribeNetwork()
+				if (abortControllerRef.current === abortController) {
+					abortControllerRef.current = null
+				}
+				if (pauseControlRef.current === pauseControl) {
+					pauseControlRef.current = null
 				}
-				abortControllerRef.current = null
-				resumableRef.current = null
 				setIsUploading(false)
+				setIsPaused(false)
+				setIsWaitingForNetwork(false)
 			}
 		},
-		[chunkSize, isUploading],
+		[chunkSize, chunkSizeBounds, isUploading, maxConcurrentFiles, maxParallelChunks, retryPolicy],
 	)
 
+	const progress = useMemo(() => (items.length ? computeQueueProgress(items) : null), [items])
+
 	const state = useMemo(
 		() => ({
+			items,
 			progress,
 			error,
 			isUploading,
+			isPaused,
+			isWaitingForNetwork,
 		}),
-		[progress, error, isUploading],
+		[items, progress, error, isUploading, isPaused, isWaitingForNetwork],
 	)
 
 	return {
 		...state,
 		reset,
+		cancel,
+		pause,
+		resume,
 		uploadFromFormData,
 	}
 }
+
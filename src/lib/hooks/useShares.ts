@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { extendShare, listShares, revokeShares, toApiError } from "../api"
+import type { Share } from "../schema"
+import { listUploadHistory, subscribeToUploadHistory } from "../uploadHistoryStore"
+import { useAuth } from "./useAuth"
+
+/**
+ * Whether a share can still be downloaded, and if not, why.
+ */
+export type ShareState = "active" | "expired" | "exhausted" | "revoked"
+
+/**
+ * Derives a share's state from its revocation, expiry and download count.
+ */
+export function shareStateOf(share: Share, now = Date.now()): ShareState {
+	if (share.revoked_at) return "revoked"
+	if (share.expires_at && Date.parse(share.expires_at) <= now) return "expired"
+	if (share.max_downloads !== null && share.download_count >= share.max_downloads) return "exhausted"
+	return "active"
+}
+
+/**
+ * The signed-in user's shares with revoke and extend actions. Reloads when the account
+ * changes and whenever an upload finishes; signed-out visitors get an empty list.
+ */
+export function useShares() {
+	const { credentials } = useAuth()
+	/** Identifies the account, so refreshed access tokens don't trigger a reload. */
+	const accountKey = credentials ? (credentials.kind === "token" ? `token:${credentials.email}` : `apiKey:${credentials.apiKey}`) : null
+	const [shares, setShares] = useState<Share[]>([])
+	const [isLoading, setIsLoading] = useState(accountKey !== null)
+	const [error, setError] = useState<string | null>(null)
+	/** Key fragments of encrypted uploads made in this browser, by upload ID. */
+	const [keyFragments, setKeyFragments] = useState<Record<string, string>>({})
+
+	useEffect(() => {
+		setShares([])
+		setError(null)
+		if (accountKey === null) {
+			setIsLoading(false)
+			return
+		}
+
+		const controller = new AbortController()
+		const load = () => {
+			setIsLoading(true)
+			listShares(controller.signal)
+				.then((response) => {
+					setShares(response.shares)
+					setError(null)
+				})
+				.catch((loadError) => {
+					if (controller.signal.aborted) return
+					console.error("Failed to load shares", loadError)
+					setError(toApiError(loadError).message)
+				})
+				.finally(() => {
+					if (!controller.signal.aborted) setIsLoading(false)
+				})
+		}
+		load()
+		const unsubscribe = subscribeToUploadHistory(load)
+		return () => {
+			controller.abort()
+			unsubscribe()
+		}
+	}, [accountKey])
+
+	/** The server never sees encryption keys, so they can only come from this browser's upload history. */
+	useEffect(() => {
+		let cancelled = false
+		const load = () => {
+			listUploadHistory()
+				.then((entries) => {
+					if (cancelled) return
+					const fragments: Record<string, string> = {}
+					entries.forEach((entry) => {
+						const hashIndex = entry.downloadUrl.indexOf("#")
+						if (entry.encrypted && hashIndex !== -1) fragments[entry.uploadId] = entry.downloadUrl.slice(hashIndex)
+					})
+					setKeyFragments(fragments)
+				})
+				.catch((historyError) => {
+					if (cancelled) return
+					console.error("Failed to load upload history", historyError)
+				})
+		}
+		load()
+		const unsubscribe = subscribeToUploadHistory(load)
+		return () => {
+			cancelled = true
+			unsubscribe()
+		}
+	}, [])
+
+	/**
+	 * The link to hand out for a share. Encrypted shares need the key fragment from the
+	 * browser that uploaded them; without it there is no working link, so this returns `null`.
+	 */
+	const copyableLinkFor = useCallback(
+		(share: Share) => {
+			if (!share.encrypted) return share.download_url
+			const fragment = keyFragments[share.upload_id]
+			return fragment ? `${share.download_url}${fragment}` : null
+		},
+		[keyFragments],
+	)
+
+	/** Revokes the given shares and marks the ones the server confirmed; returns their IDs. */
+	const revoke = useCallback(async (uploadIds: string[]) => {
+		const { revoked } = await revokeShares(uploadIds)
+		const revokedAt = new Date().toISOString()
+		const revokedIds = new Set(revoked)
+		setShares((current) =>
+			current.map((share) => (revokedIds.has(share.upload_id) ? { ...share, revoked_at: revokedAt } : share)),
+		)
+		return revoked
+	}, [])
+
+	/** Gives a share a new lifetime, in seconds from now. */
+	const extend = useCallback(async (uploadId: string, expiresIn: number) => {
+		const updated = await extendShare(uploadId, expiresIn)
+		setShares((current) => current.map((share) => (share.upload_id === uploadId ? updated : share)))
+	}, [])
+
+	return { shares, isLoading, error, isSignedIn: accountKey !== null, copyableLinkFor, revoke, extend }
+}
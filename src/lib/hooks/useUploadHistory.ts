@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { getDownloadMetadata, toApiError } from "../api"
+import {
+	deleteUploadHistoryEntry,
+	isHistoryEntryExpired,
+	listUploadHistory,
+	subscribeToUploadHistory,
+	type UploadHistoryEntry,
+} from "../uploadHistoryStore"
+
+/**
+ * What is known about a remembered link: confirmed by the server, past its expiry time
+ * (locally or per the server), gone from the server, or not determinable right now.
+ */
+export type HistoryLinkState = "checking" | "active" | "expired" | "missing" | "unknown"
+
+/**
+ * A history entry together with the current state of its link.
+ */
+export interface UploadHistoryItem extends UploadHistoryEntry {
+	linkState: HistoryLinkState
+}
+
+/**
+ * Asks the server whether a link still works. Download limits and server-side removal
+ * aren't visible locally, so an expiry time alone isn't enough.
+ */
+async function checkLinkState(uploadId: string, signal: AbortSignal): Promise<HistoryLinkState> {
+	try {
+		await getDownloadMetadata(uploadId, signal)
+		return "active"
+	} catch (error) {
+		switch (toApiError(error).code) {
+			case "session_expired":
+				return "expired"
+			case "not_found":
+				return "missing"
+			default:
+				return "unknown"
+		}
+	}
+}
+
+/**
+ * Lists uploads remembered in this browser, newest first, and checks each link that
+ * hasn't expired locally against the server.
+ */
+export function useUploadHistory() {
+	const [entries, setEntries] = useState<UploadHistoryEntry[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const [serverStates, setServerStates] = useState<Record<string, HistoryLinkState>>({})
+	/** Upload IDs with a server check started, so each link is only checked once per visit. */
+	const checkedRef = useRef(new Set<string>())
+
+	/** Load on mount and again whenever an upload finishes or an entry is removed. */
+	useEffect(() => {
+		let cancelled = false
+		const load = () => {
+			listUploadHistory()
+				.then((next) => {
+					if (cancelled) return
+					setEntries(next)
+					setError(null)
+				})
+				.catch((loadError) => {
+					if (cancelled) return
+					console.error("Failed to load upload history", loadError)
+					setError("Your upload history couldn't be loaded in this browser.")
+				})
+				.finally(() => {
+					if (!cancelled) setIsLoading(false)
+				})
+		}
+		load()
+		const unsubscribe = subscribeToUploadHistory(load)
+		return () => {
+			cancelled = true
+			unsubscribe()
+		}
+	}, [])
+
+	/** Check links that are still live locally and haven't been checked yet. */
+	useEffect(() => {
+		const checked = checkedRef.current
+		const pending = entries.filter((entry) => !isHistoryEntryExpired(entry) && !checked.has(entry.uploadId))
+		if (!pending.length) return
+
+		const controller = new AbortController()
+		const settled = new Set<string>()
+		pending.forEach((entry) => {
+			checked.add(entry.uploadId)
+			void checkLinkState(entry.uploadId, controller.signal).then((state) => {
+				if (controller.signal.aborted) return
+				settled.add(entry.uploadId)
+				setServerStates((current) => ({ ...current, [entry.uploadId]: state }))
+			})
+		})
+		return () => {
+			controller.abort()
+			/** Interrupted checks run again on the next pass. */
+			pending.forEach((entry) => {
+				if (!settled.has(entry.uploadId)) checked.delete(entry.uploadId)
+			})
+		}
+	}, [entries])
+
+	const remove = useCallback(async (uploadId: string) => {
+		await deleteUploadHistoryEntry(uploadId)
+	}, [])
+
+	const now = Date.now()
+	const items: UploadHistoryItem[] = entries.map((entry) => ({
+		...entry,
+		linkState: isHistoryEntryExpired(entry, now) ? "expired" : serverStates[entry.uploadId] ?? "checking",
+	}))
+
+	return { items, isLoading, error, remove }
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react"
+
+import type { useResumableUploader } from "./useResumableUploader"
+
+/**
+ * App-wide upload queue: progress, pause/resume, cancel and per-file results.
+ */
+export type UploadManager = ReturnType<typeof useResumableUploader>
+
+export const UploadManagerContext = createContext<UploadManager | null>(null)
+
+/**
+ * Reads the upload queue owned by `UploadManagerProvider`. Uploads started through it keep
+ * running while the user moves between routes.
+ */
+export function useUploadManager(): UploadManager {
+	const manager = useContext(UploadManagerContext)
+	if (!manager) {
+		throw new Error("useUploadManager must be used within an UploadManagerProvider.")
+	}
+	return manager
+}
@@ -0,0 +1,57 @@
+import { useEffect, useSyncExternalStore } from "react"
+
+import { getSupportedExtensions, getUploadLimits } from "../api"
+import { getUploadRules, subscribeToUploadRules, updateUploadRules, type UploadRules } from "../uploadRules"
+
+let loadPromise: Promise<UploadRules> | null = null
+
+/**
+ * Fetches the extension list and limits once per visit. Concurrent callers share the
+ * request; whatever fails keeps its current value.
+ */
+function loadUploadRules(): Promise<UploadRules> {
+	if (getUploadRules().source === "server") return Promise.resolve(getUploadRules())
+
+	loadPromise ??= Promise.allSettled([getSupportedExtensions(), getUploadLimits()])
+		.then(([extensionsResult, limitsResult]) => {
+			if (extensionsResult.status === "rejected") {
+				console.error("Failed to load supported extensions", extensionsResult.reason)
+			}
+			if (limitsResult.status === "rejected") {
+				console.error("Failed to load upload limits", limitsResult.reason)
+			}
+
+			const previous = getUploadRules()
+			const extensions =
+				extensionsResult.status === "fulfilled" && extensionsResult.value.extensions.length
+					? Array.from(new Set(extensionsResult.value.extensions))
+					: null
+			const limits = limitsResult.status === "fulfilled" ? limitsResult.value : null
+			const next: UploadRules = {
+				extensions: extensions ?? previous.extensions,
+				maxFileSize: limits?.max_file_size ?? previous.maxFileSize,
+				extensionLimits: limits?.extension_limits ?? previous.extensionLimits,
+				source: extensions ? "server" : previous.source,
+			}
+			updateUploadRules(next)
+			return next
+		})
+		.finally(() => {
+			loadPromise = null
+		})
+
+	return loadPromise
+}
+
+/**
+ * Subscribes to the shared upload rules and makes sure they are fetched once per visit.
+ */
+export function useUploadRules() {
+	const rules = useSyncExternalStore(subscribeToUploadRules, getUploadRules, getUploadRules)
+
+	useEffect(() => {
+		void loadUploadRules()
+	}, [])
+
+	return rules
+}
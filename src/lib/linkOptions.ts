@@ -0,0 +1,9 @@
+/**
+ * Link lifetimes offered when sharing or extending a link, in seconds.
+ */
+export const LINK_EXPIRY_OPTIONS = [
+	{ label: "1 hour", value: 60 * 60 },
+	{ label: "1 day", value: 24 * 60 * 60 },
+	{ label: "7 days", value: 7 * 24 * 60 * 60 },
+	{ label: "30 days", value: 30 * 24 * 60 * 60 },
+]
@@ -0,0 +1,43 @@
+/**
+ * Subset of the Network Information API used for connectivity hints.
+ */
+interface NetworkConnection extends EventTarget {
+	downlink?: number
+	effectiveType?: string
+}
+
+function getConnection(): NetworkConnection | undefined {
+	if (typeof navigator === "undefined") return undefined
+	return (navigator as Navigator & { connection?: NetworkConnection }).connection
+}
+
+/**
+ * Best guess at whether requests can currently reach the network. Besides `navigator.onLine`,
+ * a connection reporting zero downlink is treated as offline; browsers without the Network
+ * Information API only get the former.
+ */
+export function isNetworkAvailable(): boolean {
+	if (typeof navigator === "undefined") return true
+	if (!navigator.onLine) return false
+	return getConnection()?.downlink !== 0
+}
+
+/**
+ * Calls `listener` whenever connectivity may have changed: `online`/`offline` events and
+ * connection changes (e.g. switching from Wi-Fi to cellular). Returns the matching cleanup.
+ */
+export function subscribeToNetworkChanges(listener: (available: boolean) => void): () => void {
+	if (typeof window === "undefined") return () => {}
+
+	const notify = () => listener(isNetworkAvailable())
+	const connection = getConnection()
+	window.addEventListener("online", notify)
+	window.addEventListener("offline", notify)
+	connection?.addEventListener("change", notify)
+
+	return () => {
+		window.removeEventListener("online", notify)
+		window.removeEventListener("offline", notify)
+		connection?.removeEventListener("change", notify)
+	}
+}
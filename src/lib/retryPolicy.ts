@@ -0,0 +1,57 @@
+import axios from "axios"
+
+/**
+ * How failed chunk requests are retried.
+ */
+export interface RetryPolicy {
+	/** Total attempts per chunk, including the first one. */
+	maxAttempts: number
+	/** Delay before the first retry; each further retry doubles it. */
+	baseDelayMs: number
+	/** Upper bound for a single backoff delay. */
+	maxDelayMs: number
+	/** Share of each delay (0–1) that is randomised so clients don't retry in lockstep. */
+	jitter: number
+	/** HTTP statuses worth retrying. Requests that got no response at all are always retried. */
+	retryableStatuses: readonly number[]
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 5,
+	baseDelayMs: 1000,
+	maxDelayMs: 30_000,
+	jitter: 0.5,
+	retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+}
+
+/**
+ * Fills the gaps of a partial policy with the defaults and clamps values into range.
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+	const policy = { ...DEFAULT_RETRY_POLICY, ...overrides }
+	return {
+		maxAttempts: Math.max(1, Math.floor(policy.maxAttempts)),
+		baseDelayMs: Math.max(0, policy.baseDelayMs),
+		maxDelayMs: Math.max(0, policy.maxDelayMs),
+		jitter: Math.min(1, Math.max(0, policy.jitter)),
+		retryableStatuses: policy.retryableStatuses,
+	}
+}
+
+/**
+ * Whether a failed request is worth repeating under the given policy.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+	if (!axios.isAxiosError(error)) return false
+	const status = error.response?.status
+	return status === undefined || policy.retryableStatuses.includes(status)
+}
+
+/**
+ * Exponential backoff for the retry that follows failed attempt number `attempt` (1-based).
+ * The randomised share is taken off the top, so the delay never exceeds the computed backoff.
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy): number {
+	const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1))
+	return Math.round(backoff * (1 - policy.jitter * Math.random()))
+}
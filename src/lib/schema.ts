@@ -1,34 +1,124 @@
 import { z } from "zod";
 
+import { findUploadRuleViolation } from "./uploadRules";
+
+/**
+ * Longest a share link may stay valid: 30 days, in seconds.
+ */
+export const MAX_LINK_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Highest download limit a share link may carry.
+ */
+export const MAX_DOWNLOAD_LIMIT = 1000;
+
+/**
+ * Rules shared by the API payload and the form for the optional share link password.
+ */
+const linkPasswordSchema = z
+	.string()
+	.min(6, "Password must be at least 6 characters")
+	.max(128, "Password is too long");
+
+/**
+ * Rules shared by the API payload and the form for the link lifetime, in seconds.
+ */
+const linkExpirySchema = z
+	.number()
+	.int("Expiry must be a whole number of seconds")
+	.min(60 * 60, "Links must stay valid for at least an hour")
+	.max(MAX_LINK_EXPIRY_SECONDS, "Links can stay valid for at most 30 days");
+
+/**
+ * Rules shared by the API payload and the form for the download limit.
+ */
+const downloadLimitSchema = z
+	.number()
+	.int("Download limit must be a whole number")
+	.min(1, "Allow at least one download")
+	.max(MAX_DOWNLOAD_LIMIT, `Download limit can be at most ${MAX_DOWNLOAD_LIMIT}`);
+
+/**
+ * Location of a file inside a shared folder, e.g. `photos/2024/beach.jpg`. Must stay
+ * relative: no leading slash, empty segments or `.`/`..`.
+ */
+const relativePathSchema = z
+	.string()
+	.min(1, "Relative path is required")
+	.max(1024, "Relative path is too long")
+	.refine(
+		(path) => !path.startsWith("/") && path.split("/").every((segment) => segment !== "" && segment !== "." && segment !== ".."),
+		"Relative path must stay inside the shared folder",
+	);
+
 /**
  * Schema that models the request payload for `POST /v1/upload/initiate`.
  * Mirrors the OpenAPI specification so that the form values we collect
  * on the client stay compliant with the backend contract.
  */
-export const uploadInitiateRequestSchema = z.object({
-	file_name: z
-		.string()
-		.min(1, "File name is required")
-		.max(255, "File name is too long"),
+export const uploadInitiateRequestSchema = z
+	.object({
+		file_name: z
+			.string()
+			.min(1, "File name is required")
+			.max(255, "File name is too long"),
+		/** Omitted for streamed uploads and sent on completion instead. */
 		total_size: z
 			.number()
-		.int("Total size must be an integer")
-		.positive("Total size must be greater than zero"),
+			.int("Total size must be an integer")
+			.positive("Total size must be greater than zero")
+			.optional(),
+		/** Omitted for streamed uploads and sent on completion instead. */
 		total_chunks: z
 			.number()
-		.int("Total chunks must be an integer")
-		.min(1, "Total chunks must be at least 1"),
-});
+			.int("Total chunks must be an integer")
+			.min(1, "Total chunks must be at least 1")
+			.optional(),
+		chunk_size: z
+			.number()
+			.int("Chunk size must be an integer")
+			.positive("Chunk size must be greater than zero")
+			.optional(),
+		expires_in: linkExpirySchema.optional(),
+		max_downloads: downloadLimitSchema.optional(),
+		password: linkPasswordSchema.optional(),
+		/** Chunks are AES-GCM encrypted in the browser; `total_size` and `chunk_size` count ciphertext bytes. */
+		encrypted: z.boolean().optional(),
+		/** Where the file sits inside an uploaded folder, so the share keeps the folder's structure. */
+		relative_path: relativePathSchema.optional(),
+		/** The file is produced while it uploads (e.g. a zip built on the fly), so its size isn't known yet. */
+		streaming: z.boolean().optional(),
+	})
+	.superRefine((payload, ctx) => {
+		if (payload.streaming) return;
+		if (payload.total_size === undefined) {
+			ctx.addIssue({ code: "custom", path: ["total_size"], message: "Total size is required" });
+		}
+		if (payload.total_chunks === undefined) {
+			ctx.addIssue({ code: "custom", path: ["total_chunks"], message: "Total chunks is required" });
+		}
+	});
 
 export type UploadInitiateRequest = z.infer<typeof uploadInitiateRequestSchema>;
 
+/**
+ * Access rules requested for a share link when its upload is initiated.
+ */
+export type SharePolicy = Pick<UploadInitiateRequest, "expires_in" | "max_downloads" | "password">;
+
 /**
  * Successful response body for `POST /v1/upload/initiate`.
+ * `chunk_size` is present when the backend settled on a different size than requested.
  */
 export const uploadInitiateResponseSchema = z.object({
 	upload_id: z
 		.string()
 		.min(1, "Upload ID is required"),
+	chunk_size: z
+		.number()
+		.int("Chunk size must be an integer")
+		.positive("Chunk size must be greater than zero")
+		.optional(),
 });
 
 export type UploadInitiateResponse = z.infer<typeof uploadInitiateResponseSchema>;
@@ -48,13 +138,78 @@ export const uploadChunkParamsSchema = z.object({
 
 export type UploadChunkParams = z.infer<typeof uploadChunkParamsSchema>;
 
+/**
+ * Successful response body for `GET /v1/upload/{upload_id}/status`.
+ * Lists the chunk numbers the backend has already persisted for the session.
+ */
+export const uploadStatusResponseSchema = z.object({
+	upload_id: z
+		.string()
+		.min(1, "Upload ID is required"),
+	received_chunks: z
+		.array(
+			z
+				.number()
+				.int("Chunk number must be an integer")
+				.min(1, "Chunk number starts at 1"),
+		),
+	total_chunks: z
+		.number()
+		.int("Total chunks must be an integer")
+		.min(1, "Total chunks must be at least 1")
+		.optional(),
+});
+
+export type UploadStatusResponse = z.infer<typeof uploadStatusResponseSchema>;
+
+/**
+ * Hex-encoded SHA-256 digest, used for both chunk and whole-file checksums.
+ */
+export const sha256HexSchema = z
+	.string()
+	.regex(/^[a-f0-9]{64}$/, "Checksum must be a hex-encoded SHA-256 digest");
+
+/**
+ * Request body for `POST /v1/upload/{upload_id}/complete`.
+ * Carries the whole-file digest so the backend can verify the reassembled file.
+ */
+export const uploadCompleteRequestSchema = z.object({
+	file_sha256: sha256HexSchema,
+	/** Final size of a streamed upload, known only once its last chunk was produced. */
+	total_size: z
+		.number()
+		.int("Total size must be an integer")
+		.positive("Total size must be greater than zero")
+		.optional(),
+	/** Final chunk count of a streamed upload. */
+	total_chunks: z
+		.number()
+		.int("Total chunks must be an integer")
+		.min(1, "Total chunks must be at least 1")
+		.optional(),
+});
+
+export type UploadCompleteRequest = z.infer<typeof uploadCompleteRequestSchema>;
+
 /**
  * Successful response body for `POST /v1/upload/{upload_id}/complete`.
+ * The policy fields echo the access rules the backend applied to the link.
  */
 export const uploadCompleteResponseSchema = z.object({
 	download_url: z
 		.string()
 		.url("Download URL must be a valid URL"),
+	expires_at: z.iso
+		.datetime({ offset: true, message: "Expiry must be an ISO 8601 timestamp" })
+		.nullable()
+		.optional(),
+	max_downloads: z
+		.number()
+		.int("Download limit must be an integer")
+		.min(1, "Download limit must be at least 1")
+		.nullable()
+		.optional(),
+	password_protected: z.boolean().optional(),
 });
 
 export type UploadCompleteResponse = z.infer<typeof uploadCompleteResponseSchema>;
@@ -69,22 +224,275 @@ export const uploadErrorResponseSchema = z.object({
 export type UploadErrorResponse = z.infer<typeof uploadErrorResponseSchema>;
 
 /**
- * Narrow schema used by the UI layer to validate the derived form values
- * before we translate them into the API shape (`file_name`, `total_size`, `total_chunks`).
- * This keeps the UI free to use camelCase while still mapping 1:1 to the API.
+ * Error envelope returned by `POST /v1/upload/{upload_id}/complete` when the reassembled
+ * file fails verification, listing the chunks whose stored bytes don't match their checksum.
  */
-export const uploadFormSchema = z.object({
-	fileName: z
+export const uploadChecksumMismatchResponseSchema = uploadErrorResponseSchema.extend({
+	mismatched_chunks: z
+		.array(
+			z
+				.number()
+				.int("Chunk number must be an integer")
+				.min(1, "Chunk number starts at 1"),
+		)
+		.min(1, "At least one mismatched chunk is required"),
+});
+
+export type UploadChecksumMismatchResponse = z.infer<typeof uploadChecksumMismatchResponseSchema>;
+
+/**
+ * Successful response body for `GET /v1/download/{upload_id}`.
+ * Describes a shared file so the landing page can render it before downloading.
+ */
+export const downloadMetadataResponseSchema = z.object({
+	upload_id: z
 		.string()
-		.min(1, "Please select a file"),
-	totalSize: z
+		.min(1, "Upload ID is required"),
+	file_name: z
+		.string()
+		.min(1, "File name is required"),
+	total_size: z
 		.number()
 		.int("Total size must be an integer")
-		.positive("Total size must be greater than zero"),
-	totalChunks: z
+		.nonnegative("Total size cannot be negative"),
+	content_type: z
+		.string()
+		.min(1, "Content type is required")
+		.default("application/octet-stream"),
+	expires_at: z.iso
+		.datetime({ offset: true, message: "Expiry must be an ISO 8601 timestamp" })
+		.nullable()
+		.default(null),
+	/** Set when the stored bytes are ciphertext; `total_size` then includes the authentication tags. */
+	encrypted: z.boolean().default(false),
+	/** Set when the content can only be fetched with the link's password. */
+	password_protected: z.boolean().default(false),
+});
+
+export type DownloadMetadataResponse = z.infer<typeof downloadMetadataResponseSchema>;
+
+/**
+ * File extension as the backend lists it: lower-case, without the leading dot.
+ */
+const fileExtensionSchema = z
+	.string()
+	.trim()
+	.min(1, "Extension is required")
+	.transform((extension) => extension.replace(/^\./, "").toLowerCase());
+
+/**
+ * Successful response body for `GET /v1/supported-extensions`.
+ */
+export const supportedExtensionsResponseSchema = z.object({
+	extensions: z.array(fileExtensionSchema),
+});
+
+export type SupportedExtensionsResponse = z.infer<typeof supportedExtensionsResponseSchema>;
+
+/**
+ * Successful response body for `GET /v1/limits`.
+ * `extension_limits` lowers the size cap for individual extensions below `max_file_size`.
+ */
+export const uploadLimitsResponseSchema = z.object({
+	max_file_size: z
 		.number()
-		.int("Total chunks must be an integer")
-		.min(1, "Total chunks must be at least 1"),
+		.int("Maximum file size must be an integer")
+		.positive("Maximum file size must be greater than zero"),
+	extension_limits: z
+		.record(
+			fileExtensionSchema,
+			z
+				.number()
+				.int("Extension limit must be an integer")
+				.positive("Extension limit must be greater than zero"),
+		)
+		.default({}),
+});
+
+export type UploadLimitsResponse = z.infer<typeof uploadLimitsResponseSchema>;
+
+/**
+ * Request body for `POST /v1/auth/login`.
+ */
+export const signInRequestSchema = z.object({
+	email: z.email("Enter a valid email address"),
+	password: z.string().min(1, "Password is required"),
+});
+
+export type SignInRequest = z.infer<typeof signInRequestSchema>;
+
+/**
+ * Request body for `POST /v1/auth/refresh`, exchanging a refresh token for a new access token.
+ */
+export const tokenRefreshRequestSchema = z.object({
+	refresh_token: z.string().min(1, "Refresh token is required"),
+});
+
+export type TokenRefreshRequest = z.infer<typeof tokenRefreshRequestSchema>;
+
+/**
+ * Successful response body for `POST /v1/auth/login` and `POST /v1/auth/refresh`.
+ * A refresh that omits `refresh_token` keeps the previous one; `expires_in` is in seconds.
+ */
+export const authTokenResponseSchema = z.object({
+	access_token: z.string().min(1, "Access token is required"),
+	refresh_token: z.string().min(1).nullish(),
+	expires_in: z
+		.number()
+		.int("Token lifetime must be a whole number of seconds")
+		.positive("Token lifetime must be greater than zero")
+		.nullish(),
+});
+
+export type AuthTokenResponse = z.infer<typeof authTokenResponseSchema>;
+
+/**
+ * One of the signed-in user's uploads, as listed by `GET /v1/shares`.
+ * Revoked shares stay in the list with `revoked_at` set until they would have expired.
+ */
+export const shareSchema = z.object({
+	upload_id: z
+		.string()
+		.min(1, "Upload ID is required"),
+	file_name: z
+		.string()
+		.min(1, "File name is required"),
+	total_size: z
+		.number()
+		.int("Total size must be an integer")
+		.nonnegative("Total size cannot be negative"),
+	download_url: z
+		.string()
+		.url("Download URL must be a valid URL"),
+	download_count: z
+		.number()
+		.int("Download count must be an integer")
+		.nonnegative("Download count cannot be negative"),
+	max_downloads: z
+		.number()
+		.int("Download limit must be an integer")
+		.min(1, "Download limit must be at least 1")
+		.nullable()
+		.default(null),
+	expires_at: z.iso
+		.datetime({ offset: true, message: "Expiry must be an ISO 8601 timestamp" })
+		.nullable()
+		.default(null),
+	created_at: z.iso.datetime({ offset: true, message: "Creation time must be an ISO 8601 timestamp" }),
+	revoked_at: z.iso
+		.datetime({ offset: true, message: "Revocation time must be an ISO 8601 timestamp" })
+		.nullable()
+		.default(null),
+	password_protected: z.boolean().default(false),
+	encrypted: z.boolean().default(false),
+});
+
+export type Share = z.infer<typeof shareSchema>;
+
+/**
+ * Successful response body for `GET /v1/shares`, newest first.
+ */
+export const shareListResponseSchema = z.object({
+	shares: z.array(shareSchema),
+});
+
+export type ShareListResponse = z.infer<typeof shareListResponseSchema>;
+
+/**
+ * Request body for `POST /v1/shares/revoke`. Revoked links stop working straight away.
+ */
+export const shareRevokeRequestSchema = z.object({
+	upload_ids: z
+		.array(z.string().min(1, "Upload ID is required"))
+		.min(1, "Select at least one share to revoke"),
+});
+
+export type ShareRevokeRequest = z.infer<typeof shareRevokeRequestSchema>;
+
+/**
+ * Successful response body for `POST /v1/shares/revoke`, listing the shares that were
+ * revoked. IDs the user doesn't own, or that were already gone, are left out.
+ */
+export const shareRevokeResponseSchema = z.object({
+	revoked: z.array(z.string().min(1, "Upload ID is required")),
+});
+
+export type ShareRevokeResponse = z.infer<typeof shareRevokeResponseSchema>;
+
+/**
+ * Request body for `POST /v1/shares/{upload_id}/extend`. The new lifetime counts from now.
+ */
+export const shareExtendRequestSchema = z.object({
+	expires_in: linkExpirySchema,
+});
+
+export type ShareExtendRequest = z.infer<typeof shareExtendRequestSchema>;
+
+/**
+ * Narrow schema used by the UI layer to validate the derived metadata of a single
+ * selected file before we translate it into the API shape (`file_name`, `total_size`).
+ * `total_chunks` depends on the chunk size the uploader negotiates, so it isn't collected here.
+ * Files are also checked against the shared upload rules (supported extensions and size
+ * limits) so unsupported ones are rejected before a session is initiated.
+ * This keeps the UI free to use camelCase while still mapping 1:1 to the API.
+ */
+export const uploadFormFileSchema = z
+	.object({
+		fileName: z
+			.string()
+			.min(1, "Please select a file"),
+		totalSize: z
+			.number()
+			.int("Total size must be an integer")
+			.positive("Total size must be greater than zero"),
+	})
+	.superRefine((file, ctx) => {
+		const violation = findUploadRuleViolation(file);
+		if (violation) {
+			ctx.addIssue({ code: "custom", message: violation, path: ["fileName"] });
+		}
+	});
+
+export type UploadFormFileValues = z.infer<typeof uploadFormFileSchema>;
+
+/**
+ * Form-level schema: every queued file must satisfy {@link uploadFormFileSchema}, and the
+ * share link options map onto `expires_in`, `max_downloads` and `password`.
+ */
+export const uploadFormSchema = z.object({
+	files: z
+		.array(uploadFormFileSchema)
+		.min(1, "Please select a file"),
+	/** Left out for links that never expire. */
+	expiresIn: linkExpirySchema.optional(),
+	maxDownloads: downloadLimitSchema.optional(),
+	password: linkPasswordSchema.optional(),
+	encrypt: z.boolean(),
+	/** Send every selected file as one zip archive behind a single link. */
+	bundle: z.boolean(),
 });
 
 export type UploadFormValues = z.infer<typeof uploadFormSchema>;
+
+/**
+ * Sign-in form for API keys, which are sent as-is on every request and never refreshed.
+ */
+export const apiKeyFormSchema = z.object({
+	apiKey: z
+		.string()
+		.trim()
+		.min(1, "API key is required"),
+});
+
+export type ApiKeyFormValues = z.infer<typeof apiKeyFormSchema>;
+
+/**
+ * Password prompt on the download page for password-protected links.
+ */
+export const downloadPasswordFormSchema = z.object({
+	password: z
+		.string()
+		.min(1, "Enter the password the sender gave you"),
+});
+
+export type DownloadPasswordFormValues = z.infer<typeof downloadPasswordFormSchema>;
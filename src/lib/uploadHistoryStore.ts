@@ -0,0 +1,67 @@
+import { HISTORY_STORE, withObjectStore } from "./database"
+
+/**
+ * A finished upload remembered in this browser so its link can be found again later.
+ */
+export interface UploadHistoryEntry {
+	uploadId: string
+	fileName: string
+	/** Size of the original file in bytes. */
+	totalSize: number
+	/** Full share link, including the key fragment for encrypted uploads. */
+	downloadUrl: string
+	/** ISO timestamp after which the link stops working, or `null` when it doesn't expire. */
+	expiresAt: string | null
+	maxDownloads: number | null
+	passwordProtected: boolean
+	encrypted: boolean
+	/** Epoch milliseconds when the upload completed. */
+	uploadedAt: number
+}
+
+const listeners = new Set<() => void>()
+
+function notifyListeners() {
+	listeners.forEach((listener) => listener())
+}
+
+/**
+ * Registers a listener for history changes made in this tab; returns the matching cleanup.
+ */
+export function subscribeToUploadHistory(listener: () => void): () => void {
+	listeners.add(listener)
+	return () => {
+		listeners.delete(listener)
+	}
+}
+
+/**
+ * Every remembered upload, newest first.
+ */
+export async function listUploadHistory(): Promise<UploadHistoryEntry[]> {
+	const entries = await withObjectStore<UploadHistoryEntry[]>(HISTORY_STORE, "readonly", (store) => store.getAll())
+	return entries.sort((a, b) => b.uploadedAt - a.uploadedAt)
+}
+
+/**
+ * Records a finished upload, replacing an earlier entry for the same upload ID.
+ */
+export async function saveUploadHistoryEntry(entry: UploadHistoryEntry): Promise<void> {
+	await withObjectStore(HISTORY_STORE, "readwrite", (store) => store.put(entry))
+	notifyListeners()
+}
+
+/**
+ * Forgets an upload locally. The link itself keeps working until it expires.
+ */
+export async function deleteUploadHistoryEntry(uploadId: string): Promise<void> {
+	await withObjectStore(HISTORY_STORE, "readwrite", (store) => store.delete(uploadId))
+	notifyListeners()
+}
+
+/**
+ * Whether the entry's link has passed its expiry time.
+ */
+export function isHistoryEntryExpired(entry: Pick<UploadHistoryEntry, "expiresAt">, now = Date.now()): boolean {
+	return entry.expiresAt !== null && Date.parse(entry.expiresAt) <= now
+}
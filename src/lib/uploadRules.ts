@@ -0,0 +1,165 @@
+import { formatBytes } from "./format"
+
+/**
+ * Largest file the service accepts when the server hasn't told us otherwise (2 GB).
+ */
+export const DEFAULT_MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024
+
+/**
+ * Shown until the server list arrives; never used to reject files.
+ */
+const FALLBACK_EXTENSIONS = ["pdf", "docx"]
+
+const STORAGE_KEY = "quickshare.uploadRules"
+/** Key used before limits were cached alongside the extensions. */
+const LEGACY_EXTENSIONS_KEY = "quickshare.supportedExtensions"
+
+/**
+ * What the backend accepts, shared by the sidebar and the upload form.
+ */
+export interface UploadRules {
+	/** Lower-case extensions without the leading dot. */
+	extensions: string[]
+	/** Global size cap in bytes. */
+	maxFileSize: number
+	/** Stricter caps for individual extensions, in bytes. */
+	extensionLimits: Record<string, number>
+	/**
+	 * Where the extension list came from. Fallback data is only a placeholder, so files
+	 * are not rejected for their type until a real list is known.
+	 */
+	source: "server" | "cache" | "fallback"
+}
+
+/**
+ * Minimal file description checked against the rules.
+ */
+export interface UploadRuleCandidate {
+	fileName: string
+	totalSize: number
+}
+
+const FALLBACK_RULES: UploadRules = {
+	extensions: FALLBACK_EXTENSIONS,
+	maxFileSize: DEFAULT_MAX_FILE_SIZE,
+	extensionLimits: {},
+	source: "fallback",
+}
+
+let currentRules: UploadRules | null = null
+const listeners = new Set<() => void>()
+
+/**
+ * Reads the rules persisted by a previous visit, including the extension list cached
+ * under the older storage key.
+ */
+function readPersistedRules(): UploadRules | null {
+	if (typeof window === "undefined") return null
+	try {
+		const stored = window.localStorage.getItem(STORAGE_KEY)
+		if (stored) {
+			const parsed = JSON.parse(stored) as Partial<UploadRules>
+			if (Array.isArray(parsed.extensions) && typeof parsed.maxFileSize === "number") {
+				return {
+					extensions: parsed.extensions.filter((item): item is string => typeof item === "string"),
+					maxFileSize: parsed.maxFileSize,
+					extensionLimits: parsed.extensionLimits ?? {},
+					source: "cache",
+				}
+			}
+		}
+
+		const legacy = window.localStorage.getItem(LEGACY_EXTENSIONS_KEY)
+		if (legacy) {
+			const parsed: unknown = JSON.parse(legacy)
+			if (Array.isArray(parsed)) {
+				return {
+					...FALLBACK_RULES,
+					extensions: parsed.filter((item): item is string => typeof item === "string"),
+					source: "cache",
+				}
+			}
+		}
+	} catch (error) {
+		console.warn("Unable to parse cached upload rules", error)
+	}
+	return null
+}
+
+function setRules(next: UploadRules) {
+	currentRules = next
+	listeners.forEach((listener) => listener())
+}
+
+/**
+ * Current rules: fetched, cached from a previous visit, or the fallback placeholder.
+ */
+export function getUploadRules(): UploadRules {
+	currentRules ??= readPersistedRules() ?? FALLBACK_RULES
+	return currentRules
+}
+
+/**
+ * Registers a listener for rule changes; returns the matching cleanup.
+ */
+export function subscribeToUploadRules(listener: () => void): () => void {
+	listeners.add(listener)
+	return () => {
+		listeners.delete(listener)
+	}
+}
+
+/**
+ * Replaces the current rules and persists them for the next visit. Fallback placeholders
+ * are never persisted.
+ */
+export function updateUploadRules(next: UploadRules) {
+	if (next.source !== "fallback" && typeof window !== "undefined") {
+		window.localStorage.setItem(
+			STORAGE_KEY,
+			JSON.stringify({
+				extensions: next.extensions,
+				maxFileSize: next.maxFileSize,
+				extensionLimits: next.extensionLimits,
+			}),
+		)
+	}
+	setRules(next)
+}
+
+/**
+ * Lower-case extension of a file name without the dot, or `""` when it has none.
+ */
+export function extensionOf(fileName: string): string {
+	const dotIndex = fileName.lastIndexOf(".")
+	return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : ""
+}
+
+/**
+ * Size cap that applies to files with the given extension.
+ */
+export function maxSizeFor(extension: string, rules: UploadRules = getUploadRules()): number {
+	return Math.min(rules.maxFileSize, rules.extensionLimits[extension] ?? Infinity)
+}
+
+/**
+ * Checks a file against the rules and describes the first violation, or returns `null`.
+ */
+export function findUploadRuleViolation(
+	{ fileName, totalSize }: UploadRuleCandidate,
+	rules: UploadRules = getUploadRules(),
+): string | null {
+	const extension = extensionOf(fileName)
+	if (rules.source !== "fallback" && !rules.extensions.includes(extension)) {
+		return extension
+			? `“.${extension}” files aren't supported (${fileName})`
+			: `Files without an extension aren't supported (${fileName})`
+	}
+
+	const limit = maxSizeFor(extension, rules)
+	if (totalSize > limit) {
+		const scope = rules.extensionLimits[extension] !== undefined && limit < rules.maxFileSize ? ` for .${extension} files` : ""
+		return `${fileName} is ${formatBytes(totalSize)}; the limit${scope} is ${formatBytes(limit)}`
+	}
+	return null
+}
@@ -0,0 +1,70 @@
+import { SESSION_STORE, withObjectStore } from "./database"
+import { relativePathOf } from "./fileTree"
+
+/**
+ * Everything needed to resume a session without calling `upload/initiate` again.
+ */
+export interface StoredUploadSession {
+	fingerprint: string
+	uploadId: string
+	fileName: string
+	totalSize: number
+	chunkSize: number
+	totalChunks: number
+	completedChunks: number[]
+	/** Serialised AES-GCM key for end-to-end encrypted sessions; it never leaves this browser. */
+	encryptionKey?: string
+	createdAt: number
+	updatedAt: number
+}
+
+/**
+ * Runs a single request against the session store and resolves with its result.
+ */
+function withSessionStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	return withObjectStore(SESSION_STORE, mode, run)
+}
+
+/**
+ * Derives a stable identifier for a file from the metadata the browser exposes.
+ * Picking the same file again yields the same fingerprint. Files from a folder use their
+ * relative path, so equally named files in different subfolders don't collide.
+ */
+export function fingerprintFile(file: File): string {
+	return [relativePathOf(file) || file.name, file.size, file.lastModified, file.type].join(":")
+}
+
+/**
+ * Returns the first chunk number (1-based) that the session has not confirmed yet.
+ */
+export function firstMissingChunk(session: Pick<StoredUploadSession, "completedChunks" | "totalChunks">): number {
+	const completed = new Set(session.completedChunks)
+	for (let chunkNumber = 1; chunkNumber <= session.totalChunks; chunkNumber++) {
+		if (!completed.has(chunkNumber)) return chunkNumber
+	}
+	return session.totalChunks + 1
+}
+
+/**
+ * Looks up a persisted session for the given file, if one exists.
+ */
+export async function getUploadSession(file: File): Promise<StoredUploadSession | undefined> {
+	const session = await withSessionStore<StoredUploadSession | undefined>("readonly", (store) =>
+		store.get(fingerprintFile(file)),
+	)
+	return session ?? undefined
+}
+
+/**
+ * Creates or replaces a persisted session.
+ */
+export async function saveUploadSession(session: StoredUploadSession): Promise<void> {
+	await withSessionStore("readwrite", (store) => store.put(session))
+}
+
+/**
+ * Removes a persisted session, e.g. after completion or when the user starts over.
+ */
+export async function deleteUploadSession(file: File): Promise<void> {
+	await withSessionStore("readwrite", (store) => store.delete(fingerprintFile(file)))
+}
@@ -0,0 +1,17 @@
+import { computeChecksum } from "../hashing"
+import type { ChecksumRequest, ChecksumResponse } from "../checksum"
+
+/**
+ * Hashes chunks and whole files off the main thread so large uploads don't stall the UI.
+ */
+self.addEventListener("message", async (event: MessageEvent<ChecksumRequest>) => {
+	const { id } = event.data
+	let response: ChecksumResponse
+	try {
+		const digest = await computeChecksum(event.data)
+		response = { id, digest }
+	} catch (error) {
+		response = { id, error: error instanceof Error ? error.message : String(error) }
+	}
+	self.postMessage(response)
+})
@@ -0,0 +1,27 @@
+import { zipFiles, type ZipStep } from "../zipStream"
+import type { ZipWorkerRequest, ZipWorkerResponse } from "../zipArchive"
+
+let archive: AsyncGenerator<ZipStep, string, void> | null = null
+
+/**
+ * Builds one zip archive off the main thread, advancing a step per `pull` so the uploader
+ * decides how far ahead compression may run.
+ */
+self.addEventListener("message", async (event: MessageEvent<ZipWorkerRequest>) => {
+	if (event.data.type === "start") {
+		archive = zipFiles(event.data.entries)
+		return
+	}
+	if (!archive) return
+
+	let response: ZipWorkerResponse
+	try {
+		const result = await archive.next()
+		response = result.done
+			? { type: "end", digest: result.value }
+			: { type: "step", pieces: result.value.pieces, readBytes: result.value.readBytes }
+	} catch (error) {
+		response = { type: "error", error: error instanceof Error ? error.message : String(error) }
+	}
+	self.postMessage(response)
+})
@@ -0,0 +1,189 @@
+import { relativePathOf } from "./fileTree"
+import { zipFiles, type ZipEntrySource, type ZipStep } from "./zipStream"
+
+/**
+ * Message sent to the zip worker: the entries to archive, then one `pull` per step.
+ */
+export type ZipWorkerRequest = { type: "start"; entries: ZipEntrySource[] } | { type: "pull" }
+
+/**
+ * Message returned by the zip worker for each `pull`.
+ */
+export type ZipWorkerResponse =
+	| ({ type: "step" } & ZipStep)
+	| { type: "end"; digest: string }
+	| { type: "error"; error: string }
+
+/**
+ * An archive being built while it is read.
+ */
+export interface ZipArchive {
+	/** Archive bytes; nothing is compressed ahead of what the reader asks for. */
+	stream: ReadableStream<Uint8Array>
+	/** Hex SHA-256 of the archive, resolved once the stream has been read to the end. */
+	digest: Promise<string>
+}
+
+/**
+ * Advances the archive one step at a time, in a worker or inline.
+ */
+interface ZipStepper {
+	next(): Promise<IteratorResult<ZipStep, string>>
+	close(): void
+}
+
+/**
+ * Runs the archive in a dedicated worker; returns `null` where workers aren't available.
+ */
+function createWorkerStepper(entries: ZipEntrySource[]): ZipStepper | null {
+	if (typeof Worker === "undefined") return null
+
+	const worker = new Worker(new URL("./workers/zip.worker.ts", import.meta.url), { type: "module" })
+	let pending: { resolve: (result: IteratorResult<ZipStep, string>) => void; reject: (error: Error) => void } | null = null
+
+	worker.addEventListener("message", (event: MessageEvent<ZipWorkerResponse>) => {
+		const current = pending
+		pending = null
+		if (!current) return
+		const response = event.data
+		if (response.type === "step") {
+			current.resolve({ done: false, value: { pieces: response.pieces, readBytes: response.readBytes } })
+		} else if (response.type === "end") {
+			current.resolve({ done: true, value: response.digest })
+		} else {
+			current.reject(new Error(response.error))
+		}
+	})
+	worker.addEventListener("error", (event) => {
+		pending?.reject(new Error(event.message || "Zip worker failed"))
+		pending = null
+	})
+	worker.postMessage({ type: "start", entries } satisfies ZipWorkerRequest)
+
+	return {
+		next: () =>
+			new Promise((resolve, reject) => {
+				pending = { resolve, reject }
+				worker.postMessage({ type: "pull" } satisfies ZipWorkerRequest)
+			}),
+		close: () => worker.terminate(),
+	}
+}
+
+function createInlineStepper(entries: ZipEntrySource[]): ZipStepper {
+	const archive = zipFiles(entries)
+	return {
+		next: () => archive.next(),
+		close: () => {
+			void archive.return("").catch(() => undefined)
+		},
+	}
+}
+
+/** `docs/a.txt` → `docs/a (2).txt` */
+function withCopySuffix(path: string, copy: number) {
+	const slash = path.lastIndexOf("/")
+	const dot = path.lastIndexOf(".")
+	return dot > slash + 1 ? `${path.slice(0, dot)} (${copy})${path.slice(dot)}` : `${path} (${copy})`
+}
+
+/**
+ * Archive paths for the files: folder-relative where known, otherwise the bare name.
+ * Clashing paths get a ` (2)`-style suffix so no entry overwrites another on extraction.
+ */
+export function zipEntriesFor(files: File[]): ZipEntrySource[] {
+	const used = new Set<string>()
+	return files.map((file) => {
+		const path = relativePathOf(file) || file.name
+		let candidate = path
+		for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+			candidate = withCopySuffix(path, copy)
+		}
+		used.add(candidate.toLowerCase())
+		return { path: candidate, file }
+	})
+}
+
+/**
+ * Largest archive fflate writes correctly: it has no Zip64 support, so every size and
+ * offset must fit in 32 bits. Anything bigger comes out corrupt without an error.
+ */
+export const MAX_ZIP_ARCHIVE_BYTES = 0xffff_ffff
+
+/**
+ * Upper bound for the size of an archive of `entries`, known before anything is compressed:
+ * the input bytes (deflate grows incompressible data by at most 5 bytes per 64 KB block),
+ * each entry's local header, data descriptor and central directory record, and the end record.
+ */
+export function maxArchiveSize(entries: ZipEntrySource[]): number {
+	const encoder = new TextEncoder()
+	return entries.reduce((sum, { path, file }) => {
+		const pathBytes = encoder.encode(path).byteLength
+		const deflateOverhead = 5 * Math.ceil(file.size / 65_535 + 1)
+		return sum + file.size + deflateOverhead + 30 + 16 + 46 + 2 * pathBytes
+	}, 22)
+}
+
+/**
+ * Name for an archive of `files`: the folder they all came from, or a dated default.
+ */
+export function archiveNameFor(files: File[]): string {
+	const roots = new Set(files.map((file) => relativePathOf(file).split("/")[0] || null))
+	const [root] = roots
+	if (roots.size === 1 && root) return `${root}.zip`
+	return `quickshare-${new Date().toISOString().slice(0, 10)}.zip`
+}
+
+/**
+ * Streams a zip archive of `entries`, compressing in a worker when possible. Each read
+ * advances compression just far enough to produce more bytes; `onReadProgress` reports
+ * how many input bytes have been consumed.
+ */
+export function createZipArchive(
+	entries: ZipEntrySource[],
+	onReadProgress?: (readBytes: number) => void,
+): ZipArchive {
+	const stepper = createWorkerStepper(entries) ?? createInlineStepper(entries)
+	let resolveDigest!: (digest: string) => void
+	let rejectDigest!: (error: unknown) => void
+	const digest = new Promise<string>((resolve, reject) => {
+		resolveDigest = resolve
+		rejectDigest = reject
+	})
+	digest.catch(() => undefined)
+
+	const stream = new ReadableStream<Uint8Array>(
+		{
+			async pull(controller) {
+				try {
+					for (;;) {
+						const result = await stepper.next()
+						if (result.done) {
+							stepper.close()
+							resolveDigest(result.value)
+							controller.close()
+							return
+						}
+						onReadProgress?.(result.value.readBytes)
+						if (result.value.pieces.length) {
+							result.value.pieces.forEach((piece) => controller.enqueue(piece))
+							return
+						}
+					}
+				} catch (zipError) {
+					stepper.close()
+					rejectDigest(zipError)
+					controller.error(zipError)
+				}
+			},
+			cancel(reason) {
+				stepper.close()
+				rejectDigest(reason ?? new DOMException("Upload aborted", "AbortError"))
+			},
+		},
+		/** Only compress when the reader actually asks for more. */
+		{ highWaterMark: 0 },
+	)
+
+	return { stream, digest }
+}
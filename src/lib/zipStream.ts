@@ -0,0 +1,87 @@
+import { Zip, ZipDeflate, ZipPassThrough } from "fflate"
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+
+/**
+ * A file to put in the archive under `path` (forward slashes, no leading slash).
+ */
+export interface ZipEntrySource {
+	path: string
+	file: File
+}
+
+/**
+ * Output of one step: the archive bytes produced (possibly none, while deflate buffers)
+ * and how many input bytes have been consumed so far.
+ */
+export interface ZipStep {
+	pieces: Uint8Array[]
+	readBytes: number
+}
+
+/**
+ * Formats that are already compressed; deflating them again burns CPU for no gain.
+ */
+const STORED_EXTENSIONS = new Set([
+	"7z", "aac", "avi", "bz2", "docx", "epub", "flac", "gif", "gz", "heic", "jpeg", "jpg", "m4a", "m4v",
+	"mkv", "mov", "mp3", "mp4", "ogg", "opus", "png", "pptx", "rar", "tgz", "webm", "webp", "xlsx", "xz", "zip",
+])
+
+function createEntry(path: string, file: File) {
+	const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase()
+	const entry = STORED_EXTENSIONS.has(extension) ? new ZipPassThrough(path) : new ZipDeflate(path, { level: 6 })
+	entry.mtime = file.lastModified
+	return entry
+}
+
+/**
+ * Builds a zip archive of `entries` lazily: every `next()` reads one block of input and
+ * yields whatever archive bytes that produced, so the consumer's pace bounds memory use.
+ * Resolves with the hex SHA-256 of the whole archive once the central directory is out.
+ */
+export async function* zipFiles(entries: ZipEntrySource[]): AsyncGenerator<ZipStep, string, void> {
+	const hasher = sha256.create()
+	let pieces: Uint8Array[] = []
+	let zipError: Error | null = null
+	let readBytes = 0
+
+	const zip = new Zip((error, data) => {
+		if (error) {
+			zipError = error
+			return
+		}
+		hasher.update(data)
+		pieces.push(data)
+	})
+
+	/** Hands out what was produced since the last step. */
+	const drain = (): ZipStep => {
+		if (zipError) throw zipError
+		const step = { pieces, readBytes }
+		pieces = []
+		return step
+	}
+
+	for (const { path, file } of entries) {
+		const entry = createEntry(path, file)
+		zip.add(entry)
+		const reader = file.stream().getReader()
+		try {
+			for (;;) {
+				const { done, value } = await reader.read()
+				if (done) break
+				readBytes += value.byteLength
+				entry.push(value)
+				yield drain()
+			}
+		} finally {
+			reader.releaseLock()
+		}
+		entry.push(new Uint8Array(0), true)
+		yield drain()
+	}
+
+	zip.end()
+	yield drain()
+	return bytesToHex(hasher.digest())
+}
@@ -4,10 +4,19 @@ import './index.css'
 import App from './App.tsx'
 import { ThemeProvider } from 'next-themes'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-      <App />
-    </ThemeProvider>
-  </StrictMode>,
-)
+// `npm run dev:mock` answers every API request from the in-memory mock backend
+async function enableMocking() {
+  if (import.meta.env.MODE !== 'mock') return
+  const { startMockBackend } = await import('./mocks/browser')
+  await startMockBackend()
+}
+
+enableMocking().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
+        <App />
+      </ThemeProvider>
+    </StrictMode>,
+  )
+})
@@ -0,0 +1,36 @@
+import { setupWorker } from "msw/browser"
+
+import { createMockBackend, type MockFaults } from "./mockBackend"
+
+/** Reads a fault setting from the environment, ignoring values that aren't numbers. */
+function numberFromEnv(value: string | undefined) {
+	const parsed = Number(value)
+	return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Faults configured through `VITE_MOCK_*` variables; unset ones keep the defaults.
+ */
+function faultsFromEnv(): Partial<MockFaults> {
+	const env = import.meta.env
+	const faults: Partial<MockFaults> = {
+		latencyMs: numberFromEnv(env.VITE_MOCK_LATENCY_MS),
+		dropRate: numberFromEnv(env.VITE_MOCK_DROP_RATE),
+		errorRate: numberFromEnv(env.VITE_MOCK_ERROR_RATE),
+		errorStatus: numberFromEnv(env.VITE_MOCK_ERROR_STATUS),
+		corruptRate: numberFromEnv(env.VITE_MOCK_CORRUPT_RATE),
+	}
+	return Object.fromEntries(Object.entries(faults).filter(([, value]) => value !== undefined))
+}
+
+export const mockBackend = createMockBackend({ faults: faultsFromEnv() })
+
+/**
+ * Starts the service worker that answers API requests from the in-memory backend. Faults can
+ * be changed at runtime from the console through `window.quickshareMock.configure({...})`.
+ */
+export async function startMockBackend() {
+	const worker = setupWorker(...mockBackend.handlers)
+	await worker.start({ onUnhandledRequest: "bypass" })
+	Object.assign(window, { quickshareMock: mockBackend })
+}
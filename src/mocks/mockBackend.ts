@@ -0,0 +1,464 @@
+import { delay, http, HttpResponse, type JsonBodyType } from "msw"
+import { sha256 } from "@noble/hashes/sha2"
+import { bytesToHex } from "@noble/hashes/utils"
+import type { z } from "zod"
+
+import { API_BASE_URL, API_KEY_HEADER, CHUNK_CHECKSUM_HEADER, SHARE_PASSWORD_HEADER } from "../lib/api"
+import {
+	authTokenResponseSchema,
+	downloadMetadataResponseSchema,
+	sha256HexSchema,
+	shareExtendRequestSchema,
+	shareListResponseSchema,
+	shareRevokeRequestSchema,
+	shareRevokeResponseSchema,
+	shareSchema,
+	signInRequestSchema,
+	supportedExtensionsResponseSchema,
+	tokenRefreshRequestSchema,
+	uploadChecksumMismatchResponseSchema,
+	uploadChunkParamsSchema,
+	uploadCompleteRequestSchema,
+	uploadCompleteResponseSchema,
+	uploadErrorResponseSchema,
+	uploadInitiateRequestSchema,
+	uploadInitiateResponseSchema,
+	uploadLimitsResponseSchema,
+	uploadStatusResponseSchema,
+	type Share,
+	type UploadInitiateRequest,
+} from "../lib/schema"
+
+/**
+ * Failures the mock injects so retries, resumes and error messages can be exercised locally.
+ */
+export interface MockFaults {
+	/** Delay before every response in milliseconds; a `[min, max]` pair picks one at random. */
+	latencyMs: number | [number, number]
+	/** Share (0–1) of chunk uploads that fail as if the connection dropped. */
+	dropRate: number
+	/** Share (0–1) of requests answered with an error envelope instead. */
+	errorRate: number
+	/** HTTP status of injected error envelopes. */
+	errorStatus: number
+	/** Share (0–1) of chunks stored with a flipped byte, so completion reports them as mismatched. */
+	corruptRate: number
+}
+
+export const DEFAULT_MOCK_FAULTS: MockFaults = {
+	latencyMs: 0,
+	dropRate: 0,
+	errorRate: 0,
+	errorStatus: 503,
+	corruptRate: 0,
+}
+
+/**
+ * Account the mock accepts for email sign-in. Any non-empty API key is accepted as well.
+ */
+export const MOCK_ACCOUNT = { email: "demo@quickshare.dev", password: "quickshare" }
+
+/**
+ * Options for {@link createMockBackend}.
+ */
+export interface MockBackendOptions {
+	/** URL the handlers answer on; defaults to the one `api.ts` resolved. */
+	baseUrl?: string
+	faults?: Partial<MockFaults>
+	/** Lifetime of issued access tokens, so refreshes happen during longer uploads. */
+	accessTokenLifetimeSeconds?: number
+	/** Source of randomness for latency and fault injection; swap in a fixed one for deterministic tests. */
+	random?: () => number
+}
+
+/** Chunk size handed out when the client doesn't ask for one (5 MB). */
+const MOCK_CHUNK_SIZE = 5 * 1024 * 1024
+
+const MOCK_EXTENSIONS = ["pdf", "docx", "xlsx", "pptx", "txt", "md", "csv", "png", "jpg", "jpeg", "gif", "webp", "mp4", "mov", "mp3", "wav", "zip"]
+
+const MOCK_LIMITS = {
+	max_file_size: 2 * 1024 * 1024 * 1024,
+	extension_limits: { mp4: 1024 * 1024 * 1024, mov: 1024 * 1024 * 1024 },
+}
+
+interface MockChunk {
+	bytes: Uint8Array
+	/** Checksum the client declared for the chunk, if it sent one. */
+	checksum: string | null
+}
+
+interface MockSession {
+	request: UploadInitiateRequest
+	chunkSize: number
+	chunks: Map<number, MockChunk>
+	/** Account that started the upload, or `null` when anonymous. */
+	owner: string | null
+}
+
+interface MockStoredFile {
+	share: Share
+	content: Uint8Array
+	owner: string | null
+	/** Password the content is locked behind, or `null` for open links. */
+	password: string | null
+}
+
+const digestHex = (bytes: Uint8Array) => bytesToHex(sha256(bytes))
+
+/**
+ * Sends `body` after checking it against the response schema, so the mock can't drift from the contract.
+ */
+function respond<S extends z.ZodType>(schema: S, body: z.input<S>, status = 200) {
+	return HttpResponse.json(schema.parse(body) as JsonBodyType, { status })
+}
+
+function errorResponse(status: number, message: string) {
+	return respond(uploadErrorResponseSchema, { error: message }, status)
+}
+
+/**
+ * Parses a JSON request body with a request schema; invalid bodies get a 400 envelope.
+ */
+async function parseBody<S extends z.ZodType>(request: Request, schema: S) {
+	const parsed = schema.safeParse(await request.json().catch(() => undefined))
+	return parsed.success
+		? { data: parsed.data as z.output<S>, failure: null }
+		: { data: null, failure: errorResponse(400, parsed.error.issues[0]?.message ?? "Invalid request body") }
+}
+
+function concatBytes(parts: Uint8Array[]) {
+	const result = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0))
+	let offset = 0
+	for (const part of parts) {
+		result.set(part, offset)
+		offset += part.byteLength
+	}
+	return result
+}
+
+/** Shares revoked, expired or out of downloads answer 410 like the real backend. */
+function isGone(share: Share, now = Date.now()) {
+	return (
+		share.revoked_at !== null ||
+		(share.expires_at !== null && Date.parse(share.expires_at) <= now) ||
+		(share.max_downloads !== null && share.download_count >= share.max_downloads)
+	)
+}
+
+/**
+ * In-memory Quickshare backend as MSW handlers: uploads, downloads, sign-in and shares. Every
+ * request and response is checked against `schema.ts`, and faults can be injected per request.
+ * Register `handlers` with `setupWorker` in the browser or `setupServer` in tests.
+ */
+export function createMockBackend(options: MockBackendOptions = {}) {
+	const baseUrl = (options.baseUrl ?? API_BASE_URL).replace(/\/$/, "")
+	const tokenLifetimeMs = (options.accessTokenLifetimeSeconds ?? 15 * 60) * 1000
+	const random = options.random ?? Math.random
+	let faults: MockFaults = { ...DEFAULT_MOCK_FAULTS, ...options.faults }
+
+	const sessions = new Map<string, MockSession>()
+	const files = new Map<string, MockStoredFile>()
+	const accessTokens = new Map<string, { owner: string; expiresAt: number }>()
+	const refreshTokens = new Map<string, string>()
+
+	/** Waits out the configured latency, then returns an injected failure if one is due. */
+	const injectFaults = async (kind: "chunk" | "request") => {
+		const [min, max] = Array.isArray(faults.latencyMs) ? faults.latencyMs : [faults.latencyMs, faults.latencyMs]
+		const latency = min + (max - min) * random()
+		if (latency > 0) await delay(latency)
+		if (kind === "chunk" && random() < faults.dropRate) return HttpResponse.error()
+		if (random() < faults.errorRate) return errorResponse(faults.errorStatus, "Injected failure from the mock backend")
+		return null
+	}
+
+	/** Account behind a request: its owner key, `null` when anonymous, or `"invalid"` for rejected credentials. */
+	const resolveCaller = (request: Request): string | null => {
+		const apiKey = request.headers.get(API_KEY_HEADER)
+		if (apiKey) return `apiKey:${apiKey}`
+		const authorization = request.headers.get("Authorization")
+		if (!authorization) return null
+		const token = accessTokens.get(authorization.replace(/^Bearer /, ""))
+		return token && token.expiresAt > Date.now() ? token.owner : "invalid"
+	}
+
+	const issueTokens = (owner: string) => {
+		const accessToken = crypto.randomUUID()
+		const refreshToken = crypto.randomUUID()
+		accessTokens.set(accessToken, { owner, expiresAt: Date.now() + tokenLifetimeMs })
+		refreshTokens.set(refreshToken, owner)
+		return respond(authTokenResponseSchema, {
+			access_token: accessToken,
+			refresh_token: refreshToken,
+			expires_in: Math.round(tokenLifetimeMs / 1000),
+		})
+	}
+
+	const unauthorized = () => errorResponse(401, "Your session has expired")
+
+	const handlers = [
+		http.get(`${baseUrl}/supported-extensions`, async () => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			return respond(supportedExtensionsResponseSchema, { extensions: MOCK_EXTENSIONS })
+		}),
+
+		http.get(`${baseUrl}/limits`, async () => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			return respond(uploadLimitsResponseSchema, MOCK_LIMITS)
+		}),
+
+		http.post(`${baseUrl}/auth/login`, async ({ request }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const { data, failure } = await parseBody(request, signInRequestSchema)
+			if (failure) return failure
+			if (data.email !== MOCK_ACCOUNT.email || data.password !== MOCK_ACCOUNT.password) {
+				return errorResponse(401, "Email or password is incorrect")
+			}
+			return issueTokens(`email:${data.email}`)
+		}),
+
+		http.post(`${baseUrl}/auth/refresh`, async ({ request }) => {
+			const { data, failure } = await parseBody(request, tokenRefreshRequestSchema)
+			if (failure) return failure
+			const owner = refreshTokens.get(data.refresh_token)
+			if (!owner) return errorResponse(401, "Refresh token is invalid")
+			// Refresh tokens rotate, so each one works once
+			refreshTokens.delete(data.refresh_token)
+			return issueTokens(owner)
+		}),
+
+		http.post(`${baseUrl}/upload/initiate`, async ({ request }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const owner = resolveCaller(request)
+			if (owner === "invalid") return unauthorized()
+			const { data, failure } = await parseBody(request, uploadInitiateRequestSchema)
+			if (failure) return failure
+
+			const extension = data.file_name.split(".").pop()?.toLowerCase() ?? ""
+			if (!MOCK_EXTENSIONS.includes(extension)) return errorResponse(415, `.${extension} files aren't supported`)
+			const sizeLimit = MOCK_LIMITS.extension_limits[extension as keyof typeof MOCK_LIMITS.extension_limits] ?? MOCK_LIMITS.max_file_size
+			if (data.total_size !== undefined && data.total_size > sizeLimit) {
+				return errorResponse(413, "File is larger than the server allows")
+			}
+
+			const uploadId = crypto.randomUUID()
+			const chunkSize = data.chunk_size ?? MOCK_CHUNK_SIZE
+			sessions.set(uploadId, { request: data, chunkSize, chunks: new Map(), owner })
+			return respond(uploadInitiateResponseSchema, {
+				upload_id: uploadId,
+				...(data.chunk_size === undefined ? { chunk_size: chunkSize } : {}),
+			})
+		}),
+
+		http.put(`${baseUrl}/upload/:uploadId/chunk/:chunkNumber`, async ({ request, params }) => {
+			const fault = await injectFaults("chunk")
+			if (fault) return fault
+			if (resolveCaller(request) === "invalid") return unauthorized()
+			const parsedParams = uploadChunkParamsSchema.safeParse({
+				upload_id: params.uploadId,
+				chunk_number: Number(params.chunkNumber),
+			})
+			if (!parsedParams.success) return errorResponse(400, parsedParams.error.issues[0]?.message ?? "Invalid chunk")
+			const { upload_id: uploadId, chunk_number: chunkNumber } = parsedParams.data
+
+			const session = sessions.get(uploadId)
+			if (!session) return errorResponse(files.has(uploadId) ? 409 : 404, "Upload session not found")
+			const totalChunks = session.request.total_chunks
+			if (totalChunks !== undefined && chunkNumber > totalChunks) {
+				return errorResponse(416, `Chunk ${chunkNumber} is outside the file's ${totalChunks} chunks`)
+			}
+
+			const bytes = new Uint8Array(await request.arrayBuffer())
+			if (bytes.byteLength > session.chunkSize) return errorResponse(413, "Chunk is larger than the session's chunk size")
+
+			const declared = request.headers.get(CHUNK_CHECKSUM_HEADER)
+			if (declared !== null) {
+				if (!sha256HexSchema.safeParse(declared).success) return errorResponse(400, "Chunk checksum is malformed")
+				if (digestHex(bytes) !== declared) {
+					return respond(
+						uploadChecksumMismatchResponseSchema,
+						{ error: "Chunk checksum mismatch", mismatched_chunks: [chunkNumber] },
+						400,
+					)
+				}
+			}
+
+			// Corrupt the stored copy after it was verified, as a failing disk would
+			const stored = bytes.slice()
+			if (stored.byteLength > 0 && random() < faults.corruptRate) stored[0] ^= 0xff
+			session.chunks.set(chunkNumber, { bytes: stored, checksum: declared })
+			return new HttpResponse(null, { status: 204 })
+		}),
+
+		http.get(`${baseUrl}/upload/:uploadId/status`, async ({ request, params }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			if (resolveCaller(request) === "invalid") return unauthorized()
+			const uploadId = String(params.uploadId)
+			const session = sessions.get(uploadId)
+			if (!session) return errorResponse(files.has(uploadId) ? 410 : 404, "Upload session not found")
+			return respond(uploadStatusResponseSchema, {
+				upload_id: uploadId,
+				received_chunks: Array.from(session.chunks.keys()).sort((a, b) => a - b),
+				total_chunks: session.request.total_chunks,
+			})
+		}),
+
+		http.post(`${baseUrl}/upload/:uploadId/complete`, async ({ request, params }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			if (resolveCaller(request) === "invalid") return unauthorized()
+			const uploadId = String(params.uploadId)
+			const session = sessions.get(uploadId)
+			if (!session) return errorResponse(files.has(uploadId) ? 410 : 404, "Upload session not found")
+			const { data, failure } = await parseBody(request, uploadCompleteRequestSchema)
+			if (failure) return failure
+
+			const totalChunks = session.request.total_chunks ?? data.total_chunks
+			const totalSize = session.request.total_size ?? data.total_size
+			if (totalChunks === undefined || totalSize === undefined) {
+				return errorResponse(400, "Streamed uploads must send their final size and chunk count")
+			}
+			const chunkNumbers = Array.from({ length: totalChunks }, (_, index) => index + 1)
+			const missing = chunkNumbers.filter((chunkNumber) => !session.chunks.has(chunkNumber))
+			if (missing.length) return errorResponse(400, `Chunks ${missing.join(", ")} haven't been uploaded`)
+
+			const chunks = chunkNumbers.map((chunkNumber) => session.chunks.get(chunkNumber)!)
+			const mismatched = chunkNumbers.filter((_, index) => {
+				const { bytes, checksum } = chunks[index]
+				return checksum !== null && digestHex(bytes) !== checksum
+			})
+			if (mismatched.length) {
+				return respond(
+					uploadChecksumMismatchResponseSchema,
+					{ error: "Some chunks don't match their checksums", mismatched_chunks: mismatched },
+					422,
+				)
+			}
+
+			const content = concatBytes(chunks.map((chunk) => chunk.bytes))
+			if (content.byteLength !== totalSize) return errorResponse(400, "File size doesn't match the announced size")
+			if (digestHex(content) !== data.file_sha256) return errorResponse(422, "File checksum mismatch")
+
+			const { request: initiate } = session
+			const share = shareSchema.parse({
+				upload_id: uploadId,
+				file_name: initiate.relative_path ?? initiate.file_name,
+				total_size: totalSize,
+				download_url: `${globalThis.location?.origin ?? "http://localhost:5173"}/d/${uploadId}`,
+				download_count: 0,
+				max_downloads: initiate.max_downloads ?? null,
+				expires_at: initiate.expires_in ? new Date(Date.now() + initiate.expires_in * 1000).toISOString() : null,
+				created_at: new Date().toISOString(),
+				password_protected: Boolean(initiate.password),
+				encrypted: Boolean(initiate.encrypted),
+			})
+			sessions.delete(uploadId)
+			files.set(uploadId, { share, content, owner: session.owner, password: initiate.password ?? null })
+			return respond(uploadCompleteResponseSchema, {
+				download_url: share.download_url,
+				expires_at: share.expires_at,
+				max_downloads: share.max_downloads,
+				password_protected: share.password_protected,
+			})
+		}),
+
+		http.get(`${baseUrl}/download/:uploadId`, async ({ params }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const stored = files.get(String(params.uploadId))
+			if (!stored) return errorResponse(404, "File not found")
+			if (isGone(stored.share)) return errorResponse(410, "This link is no longer available")
+			return respond(downloadMetadataResponseSchema, {
+				upload_id: stored.share.upload_id,
+				file_name: stored.share.file_name,
+				total_size: stored.share.total_size,
+				expires_at: stored.share.expires_at,
+				encrypted: stored.share.encrypted,
+				password_protected: stored.share.password_protected,
+			})
+		}),
+
+		http.get(`${baseUrl}/download/:uploadId/content`, async ({ request, params }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const stored = files.get(String(params.uploadId))
+			if (!stored) return errorResponse(404, "File not found")
+			if (isGone(stored.share)) return errorResponse(410, "This link is no longer available")
+			if (stored.password !== null && request.headers.get(SHARE_PASSWORD_HEADER) !== stored.password) {
+				return errorResponse(403, "The password for this link is missing or incorrect")
+			}
+			stored.share = { ...stored.share, download_count: stored.share.download_count + 1 }
+			return new HttpResponse(stored.content.slice(), {
+				headers: {
+					"Content-Type": "application/octet-stream",
+					"Content-Length": String(stored.content.byteLength),
+				},
+			})
+		}),
+
+		http.get(`${baseUrl}/shares`, async ({ request }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const owner = resolveCaller(request)
+			if (owner === "invalid" || owner === null) return unauthorized()
+			const shares = Array.from(files.values())
+				.filter((stored) => stored.owner === owner)
+				.map((stored) => stored.share)
+				.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+			return respond(shareListResponseSchema, { shares })
+		}),
+
+		http.post(`${baseUrl}/shares/revoke`, async ({ request }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const owner = resolveCaller(request)
+			if (owner === "invalid" || owner === null) return unauthorized()
+			const { data, failure } = await parseBody(request, shareRevokeRequestSchema)
+			if (failure) return failure
+			const revokedAt = new Date().toISOString()
+			const revoked = data.upload_ids.filter((uploadId) => {
+				const stored = files.get(uploadId)
+				if (!stored || stored.owner !== owner || stored.share.revoked_at) return false
+				stored.share = { ...stored.share, revoked_at: revokedAt }
+				return true
+			})
+			return respond(shareRevokeResponseSchema, { revoked })
+		}),
+
+		http.post(`${baseUrl}/shares/:uploadId/extend`, async ({ request, params }) => {
+			const fault = await injectFaults("request")
+			if (fault) return fault
+			const owner = resolveCaller(request)
+			if (owner === "invalid" || owner === null) return unauthorized()
+			const stored = files.get(String(params.uploadId))
+			if (!stored || stored.owner !== owner) return errorResponse(404, "Share not found")
+			if (stored.share.revoked_at) return errorResponse(410, "Revoked links can't be extended")
+			const { data, failure } = await parseBody(request, shareExtendRequestSchema)
+			if (failure) return failure
+			stored.share = { ...stored.share, expires_at: new Date(Date.now() + data.expires_in * 1000).toISOString() }
+			return respond(shareSchema, stored.share)
+		}),
+	]
+
+	return {
+		handlers,
+		/** Changes the injected faults; omitted fields keep their current value. */
+		configure(next: Partial<MockFaults>) {
+			faults = { ...faults, ...next }
+		},
+		/** Forgets every session, stored file and issued token, and clears the faults. */
+		reset() {
+			faults = { ...DEFAULT_MOCK_FAULTS, ...options.faults }
+			sessions.clear()
+			files.clear()
+			accessTokens.clear()
+			refreshTokens.clear()
+		},
+	}
+}
+
+export type MockBackend = ReturnType<typeof createMockBackend>
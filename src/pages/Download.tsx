@@ -0,0 +1,163 @@
+import type { FormEvent } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Link, useLocation, useParams } from "react-router-dom"
+import { Clock, Download as DownloadIcon, File as FileIcon, FileX, KeyRound, Loader2, Lock } from "lucide-react"
+
+import { Progress } from "@/components/ui/progress"
+import { formatBytes } from "@/lib/format"
+import { useFileDownload } from "@/lib/hooks/useFileDownload"
+import { downloadPasswordFormSchema, type DownloadPasswordFormValues } from "@/lib/schema"
+
+/**
+ * Landing page for share links (`/d/:uploadId`): shows what was shared and downloads it
+ * with progress. Expired and unknown links get their own explanatory states, and
+ * password-protected links ask for the password first.
+ */
+function Download() {
+  const { uploadId } = useParams<{ uploadId: string }>()
+  const { hash } = useLocation()
+  const {
+    metadata,
+    fileSize,
+    isEncrypted,
+    isPasswordProtected,
+    canDownload,
+    status,
+    progress,
+    error,
+    recovery,
+    passwordError,
+    download,
+  } = useFileDownload(uploadId, hash)
+
+  const passwordForm = useForm<DownloadPasswordFormValues>({
+    resolver: zodResolver(downloadPasswordFormSchema),
+    defaultValues: { password: "" },
+  })
+
+  const handleDownload = isPasswordProtected
+    ? passwordForm.handleSubmit((values) => download(values.password))
+    : (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault()
+        void download()
+      }
+
+  const expiresAt = metadata?.expires_at ? new Date(metadata.expires_at) : null
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 md:px-6">
+      <main className="flex flex-col items-center py-8 md:py-12 text-black dark:text-white">
+        <section className="w-full max-w-md space-y-4 rounded-2xl bg-white/80 dark:bg-black/80 p-6 shadow-sm ring-1 ring-black/10 dark:ring-white/10 animate-fade-in-up">
+          {status === "loading" && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-black/70 dark:text-white/70" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading file details…
+            </div>
+          )}
+
+          {(status === "expired" || status === "missing") && (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              {status === "expired" ? <Clock className="h-8 w-8" /> : <FileX className="h-8 w-8" />}
+              <h1 className="merriweather-heading text-2xl">
+                {status === "expired" ? "This link has expired" : "File not found"}
+              </h1>
+              <p className="metamorphous-regular text-sm text-black/70 dark:text-white/70">
+                {status === "expired"
+                  ? "The file is no longer available. Ask the sender to share it again."
+                  : "This link doesn't point to a shared file. Check that it was copied completely."}
+              </p>
+              <Link to="/" className="text-sm font-medium underline underline-offset-2">
+                Share a file of your own
+              </Link>
+            </div>
+          )}
+
+          {metadata && status !== "expired" && status !== "missing" && (
+            <>
+              <div className="flex items-start gap-3">
+                <FileIcon className="mt-1 h-6 w-6 shrink-0 text-black/70 dark:text-white/70" />
+                <div className="min-w-0 space-y-1">
+                  <h1 className="truncate text-lg font-semibold" title={metadata.file_name}>{metadata.file_name}</h1>
+                  <p className="text-xs text-black/60 dark:text-white/60">
+                    {formatBytes(fileSize ?? metadata.total_size)} · {metadata.content_type}
+                  </p>
+                  {isPasswordProtected && (
+                    <p className="flex items-center gap-1 text-xs text-black/60 dark:text-white/60">
+                      <KeyRound className="h-3 w-3" />
+                      Password protected
+                    </p>
+                  )}
+                  {isEncrypted && (
+                    <p className="flex items-center gap-1 text-xs text-black/60 dark:text-white/60">
+                      <Lock className="h-3 w-3" />
+                      End-to-end encrypted; decrypted in your browser
+                    </p>
+                  )}
+                  {expiresAt && (
+                    <p className="text-xs text-black/60 dark:text-white/60">
+                      Available until {expiresAt.toLocaleString()}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {progress && status === "downloading" && (
+                <div className="space-y-2" aria-live="polite">
+                  <Progress value={progress.percentage} className="h-3" />
+                  <div className="flex items-center justify-between text-xs text-black/60 dark:text-white/60">
+                    <span>Downloaded</span>
+                    <span>
+                      {formatBytes(progress.loadedBytes)} / {formatBytes(progress.totalBytes)}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {status === "downloaded" && (
+                <p className="text-xs text-black/70 dark:text-white/70">Download complete. The file is in your downloads folder or wherever you chose to save it.</p>
+              )}
+
+              <form onSubmit={handleDownload} className="space-y-3" noValidate>
+                {isPasswordProtected && (
+                  <label className="block space-y-1 text-sm">
+                    <span>Password</span>
+                    <input
+                      type="password"
+                      autoComplete="off"
+                      {...passwordForm.register("password")}
+                      disabled={status === "downloading"}
+                      className="w-full rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm text-black dark:text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-black/40 dark:focus:ring-white/40"
+                    />
+                  </label>
+                )}
+                {(passwordForm.formState.errors.password || passwordError) && (
+                  <p className="text-xs text-red-600" role="alert">
+                    {passwordForm.formState.errors.password?.message ?? passwordError}
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  disabled={status === "downloading" || !canDownload}
+                  className="inline-flex w-full items-center justify-center gap-2 rounded-[15px] border border-black dark:border-white px-5 py-2 text-sm font-semibold text-black dark:text-white transition hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black focus:outline-none focus-visible:ring-2 focus-visible:ring-black/40 dark:focus-visible:ring-white/40 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  <DownloadIcon className="h-4 w-4" />
+                  {status === "downloading" ? "Downloading…" : status === "downloaded" ? "Download again" : "Download"}
+                </button>
+              </form>
+            </>
+          )}
+
+          {status === "failed" && (
+            <div role="alert" className="space-y-1">
+              <p className="text-sm text-red-600">{error ?? "Something went wrong. Please try again."}</p>
+              {recovery && <p className="text-xs text-black/70 dark:text-white/70">{recovery}</p>}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
+
+export default Download
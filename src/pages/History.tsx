@@ -0,0 +1,194 @@
+import { Link } from "react-router-dom"
+import { Copy, ExternalLink, History as HistoryIcon, Loader2, Lock, Share2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { copyText } from "@/lib/clipboard"
+import { formatBytes } from "@/lib/format"
+import { useUploadHistory, type HistoryLinkState, type UploadHistoryItem } from "@/lib/hooks/useUploadHistory"
+
+/** Badge copy for each link state. */
+const LINK_STATE_LABELS: Record<HistoryLinkState, string> = {
+  checking: "Checking…",
+  active: "Active",
+  expired: "Expired",
+  missing: "Removed",
+  unknown: "Status unknown",
+}
+
+/** Links that can no longer be downloaded; their share actions are disabled. */
+const isDeadLink = (state: HistoryLinkState) => state === "expired" || state === "missing"
+
+/** Expiry line for an entry, phrased for links that are still live or already gone. */
+function describeExpiry(item: UploadHistoryItem) {
+  if (!item.expiresAt) return "Never expires"
+  const expiresAt = new Date(item.expiresAt).toLocaleString()
+  return item.linkState === "expired" ? `Expired ${expiresAt}` : `Expires ${expiresAt}`
+}
+
+/**
+ * Uploads finished in this browser (`/history`), with their links ready to copy, share or
+ * open again. Entries are stored locally; removing one doesn't delete the file.
+ */
+function History() {
+  const { items, isLoading, error, remove } = useUploadHistory()
+
+  const handleCopy = async (item: UploadHistoryItem) => {
+    try {
+      await copyText(item.downloadUrl)
+      toast.success("Download link copied to your clipboard")
+    } catch (copyError) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to copy download link", copyError)
+      }
+      toast.error("Couldn't copy the link. Please try again.")
+    }
+  }
+
+  /** Use the native share sheet where there is one, otherwise fall back to copying. */
+  const handleShare = async (item: UploadHistoryItem) => {
+    if (!navigator.share) {
+      await handleCopy(item)
+      return
+    }
+    try {
+      await navigator.share({ title: item.fileName, url: item.downloadUrl })
+    } catch (shareError) {
+      if (shareError instanceof DOMException && shareError.name === "AbortError") return
+      await handleCopy(item)
+    }
+  }
+
+  const handleRemove = async (item: UploadHistoryItem) => {
+    try {
+      await remove(item.uploadId)
+      toast.success(`Removed ${item.fileName} from your history`)
+    } catch (removeError) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to remove history entry", removeError)
+      }
+      toast.error("Couldn't remove the entry. Please try again.")
+    }
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 md:px-6">
+      <main className="flex flex-col items-center py-8 md:py-12 text-black dark:text-white">
+        <section className="w-full max-w-2xl space-y-6 animate-fade-in-up">
+          <div className="space-y-2">
+            <h1 className="merriweather-heading text-3xl font-semibold">Your uploads</h1>
+            <p className="metamorphous-regular text-sm text-black/70 dark:text-white/70">
+              Links for files you shared from this browser. Removing an entry only forgets it here.
+            </p>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-black/70 dark:text-white/70" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading your uploads…
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          {!isLoading && !error && items.length === 0 && (
+            <div className="flex flex-col items-center gap-3 rounded-2xl p-8 text-center ring-1 ring-black/10 dark:ring-white/10">
+              <HistoryIcon className="h-8 w-8" />
+              <p className="text-sm text-black/70 dark:text-white/70">Nothing here yet. Finished uploads show up automatically.</p>
+              <Link to="/" className="text-sm font-medium underline underline-offset-2">
+                Share a file
+              </Link>
+            </div>
+          )}
+
+          <ul className="space-y-4" aria-live="polite">
+            {items.map((item) => {
+              const isDead = isDeadLink(item.linkState)
+
+              return (
+                <li
+                  key={item.uploadId}
+                  className={`space-y-3 rounded-2xl bg-white/80 dark:bg-black/80 p-4 shadow-sm ring-1 ring-black/10 dark:ring-white/10 ${isDead ? "opacity-70" : ""}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <h2 className="truncate font-semibold" title={item.fileName}>{item.fileName}</h2>
+                      <p className="text-xs text-black/60 dark:text-white/60">
+                        {formatBytes(item.totalSize)} · Uploaded {new Date(item.uploadedAt).toLocaleString()}
+                      </p>
+                      <p className="flex items-center gap-1 text-xs text-black/60 dark:text-white/60">
+                        {item.encrypted && <Lock className="h-3 w-3" aria-label="End-to-end encrypted" />}
+                        {describeExpiry(item)}
+                        {item.maxDownloads !== null && ` · ${item.maxDownloads} ${item.maxDownloads === 1 ? "download" : "downloads"} max`}
+                        {item.passwordProtected && " · Password protected"}
+                      </p>
+                    </div>
+                    <span
+                      className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium uppercase tracking-wide ${isDead ? "bg-red-600/10 text-red-600" : "bg-black/5 dark:bg-white/10 text-black/70 dark:text-white/70"}`}
+                    >
+                      {LINK_STATE_LABELS[item.linkState]}
+                    </span>
+                  </div>
+
+                  <input
+                    type="text"
+                    value={item.downloadUrl}
+                    readOnly
+                    aria-label={`Download link for ${item.fileName}`}
+                    className="w-full truncate rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm text-black dark:text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-black/40 dark:focus:ring-white/40"
+                  />
+
+                  <div className="flex flex-wrap items-center gap-2 text-xs font-medium">
+                    <button
+                      type="button"
+                      onClick={() => handleCopy(item)}
+                      disabled={isDead}
+                      className="inline-flex items-center gap-1.5 rounded-md border border-black/15 dark:border-white/20 px-3 py-1.5 transition hover:bg-black/5 dark:hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      Copy
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleShare(item)}
+                      disabled={isDead}
+                      className="inline-flex items-center gap-1.5 rounded-md border border-black/15 dark:border-white/20 px-3 py-1.5 transition hover:bg-black/5 dark:hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <Share2 className="h-3.5 w-3.5" />
+                      Share
+                    </button>
+                    {!isDead && (
+                      <a
+                        href={item.downloadUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1.5 rounded-md border border-black/15 dark:border-white/20 px-3 py-1.5 transition hover:bg-black/5 dark:hover:bg-white/20"
+                      >
+                        <ExternalLink className="h-3.5 w-3.5" />
+                        Open
+                      </a>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(item)}
+                      className="ml-auto inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-red-600 transition hover:bg-red-600/10"
+                      aria-label={`Remove ${item.fileName} from history`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      </main>
+    </div>
+  )
+}
+
+export default History
@@ -0,0 +1,94 @@
+import { act, fireEvent, render, renderHook, screen, within } from "@testing-library/react"
+import { MemoryRouter } from "react-router-dom"
+import { Toaster } from "sonner"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { requestAccessToken } from "@/lib/api"
+import { credentialsFromTokens, setAuthCredentials } from "@/lib/authStore"
+import { useResumableUploader } from "@/lib/hooks/useResumableUploader"
+import { deleteUploadHistoryEntry } from "@/lib/uploadHistoryStore"
+import { MOCK_ACCOUNT } from "@/mocks/mockBackend"
+import Shares from "@/pages/Shares"
+import { installNodeFileGlobals } from "@/test/nodeFileGlobals"
+
+installNodeFileGlobals()
+
+/** Uploads a file as the signed-in user, so it shows up among their shares. */
+async function shareFile(name: string, { encrypt = false } = {}) {
+  const { result, unmount } = renderHook(() => useResumableUploader())
+  const formData = new FormData()
+  formData.append("files", new File([`contents of ${name}`], name, { type: "text/plain" }))
+  let uploadId = ""
+  await act(async () => {
+    const [outcome] = await result.current.uploadFromFormData({ formData, resume: false, encrypt })
+    if (outcome.status === "rejected") throw outcome.reason
+    uploadId = outcome.outcome.uploadId
+  })
+  unmount()
+  return uploadId
+}
+
+function renderShares() {
+  return render(
+    <MemoryRouter>
+      <Shares />
+      <Toaster />
+    </MemoryRouter>
+  )
+}
+
+/** The list item for a share, found by its file name. */
+async function findShare(fileName: string) {
+  const heading = await screen.findByRole("heading", { name: fileName })
+  return heading.closest("li")!
+}
+
+describe("Shares", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const tokens = await requestAccessToken(MOCK_ACCOUNT)
+    setAuthCredentials(credentialsFromTokens(tokens, MOCK_ACCOUNT.email, null))
+  })
+
+  afterEach(() => {
+    setAuthCredentials(null)
+    vi.restoreAllMocks()
+  })
+
+  it("revokes a share once the revoke is confirmed", async () => {
+    await shareFile("report.txt")
+    renderShares()
+
+    fireEvent.click(within(await findShare("report.txt")).getByRole("button", { name: "Revoke report.txt" }))
+    fireEvent.click(within(screen.getByRole("alertdialog", { name: "Confirm revoke" })).getByRole("button", { name: "Revoke" }))
+
+    expect(await screen.findByText("Link revoked")).toBeInTheDocument()
+    expect(within(await findShare("report.txt")).getByText("Revoked")).toBeInTheDocument()
+    expect(screen.queryByRole("button", { name: "Revoke report.txt" })).not.toBeInTheDocument()
+  })
+
+  it("gives a share a new expiry", async () => {
+    await shareFile("slides.txt")
+    renderShares()
+    const share = await findShare("slides.txt")
+    expect(within(share).getByText(/Never expires/)).toBeInTheDocument()
+
+    fireEvent.change(within(share).getByRole("combobox", { name: "Extend slides.txt" }), {
+      target: { value: String(24 * 60 * 60) },
+    })
+
+    expect(await screen.findByText("slides.txt now stays available longer")).toBeInTheDocument()
+    expect(within(share).getByText(/Expires /)).toBeInTheDocument()
+  })
+
+  it("only lets encrypted shares be copied from the browser that holds their key", async () => {
+    await shareFile("kept.txt", { encrypt: true })
+    await deleteUploadHistoryEntry(await shareFile("forgotten.txt", { encrypt: true }))
+    renderShares()
+
+    expect(within(await findShare("kept.txt")).getByRole("button", { name: "Copy link" })).toBeEnabled()
+    const forgotten = await findShare("forgotten.txt")
+    expect(within(forgotten).getByRole("button", { name: "Copy link" })).toBeDisabled()
+    expect(within(forgotten).getByText(/only available on the device that uploaded it/)).toBeInTheDocument()
+  })
+})
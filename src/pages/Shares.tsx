@@ -0,0 +1,313 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { Ban, Copy, Link2, Loader2, Lock } from "lucide-react"
+import { toast } from "sonner"
+
+import { toApiError } from "@/lib/api"
+import { copyText } from "@/lib/clipboard"
+import { formatBytes } from "@/lib/format"
+import { shareStateOf, useShares, type ShareState } from "@/lib/hooks/useShares"
+import { LINK_EXPIRY_OPTIONS } from "@/lib/linkOptions"
+import type { Share } from "@/lib/schema"
+
+/** Badge copy for each share state. */
+const SHARE_STATE_LABELS: Record<ShareState, string> = {
+  active: "Active",
+  expired: "Expired",
+  exhausted: "Download limit reached",
+  revoked: "Revoked",
+}
+
+/** Download count against the share's limit, if it has one. */
+function describeDownloads(share: Share) {
+  const noun = share.download_count === 1 ? "download" : "downloads"
+  return share.max_downloads === null
+    ? `${share.download_count} ${noun}`
+    : `${share.download_count} of ${share.max_downloads} ${noun}`
+}
+
+/** Expiry line for a share, phrased for links that are still live or already gone. */
+function describeExpiry(share: Share, state: ShareState) {
+  if (!share.expires_at) return "Never expires"
+  const expiresAt = new Date(share.expires_at).toLocaleString()
+  return state === "expired" ? `Expired ${expiresAt}` : `Expires ${expiresAt}`
+}
+
+/**
+ * Everything the signed-in user has shared (`/shares`), with download counts and expiry.
+ * Links can be copied, given a new lifetime, or revoked one at a time or in bulk.
+ */
+function Shares() {
+  const { shares, isLoading, error, isSignedIn, copyableLinkFor, revoke, extend } = useShares()
+  /** Shares ticked for a bulk revoke. */
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  /** Shares waiting for the user to confirm the revoke, since it can't be undone. */
+  const [pendingRevoke, setPendingRevoke] = useState<string[] | null>(null)
+  const [isRevoking, setIsRevoking] = useState(false)
+  /** Share whose extend request is in flight. */
+  const [extendingId, setExtendingId] = useState<string | null>(null)
+
+  const now = Date.now()
+  const revocableIds = shares.filter((share) => !share.revoked_at).map((share) => share.upload_id)
+  const selectedIds = revocableIds.filter((uploadId) => selected.has(uploadId))
+  const allSelected = revocableIds.length > 0 && selectedIds.length === revocableIds.length
+
+  const toggleSelected = (uploadId: string) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(uploadId)) {
+        next.delete(uploadId)
+      } else {
+        next.add(uploadId)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(revocableIds))
+  }
+
+  const handleCopy = async (link: string) => {
+    try {
+      await copyText(link)
+      toast.success("Download link copied to your clipboard")
+    } catch (copyError) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to copy download link", copyError)
+      }
+      toast.error("Couldn't copy the link. Please try again.")
+    }
+  }
+
+  const handleConfirmRevoke = async () => {
+    if (!pendingRevoke) return
+    setIsRevoking(true)
+    try {
+      const revoked = await revoke(pendingRevoke)
+      const skipped = pendingRevoke.length - revoked.length
+      if (skipped > 0) {
+        toast.warning(`Revoked ${revoked.length} of ${pendingRevoke.length} links. The rest were already gone.`)
+      } else {
+        toast.success(revoked.length === 1 ? "Link revoked" : `${revoked.length} links revoked`)
+      }
+      setSelected((current) => new Set([...current].filter((uploadId) => !revoked.includes(uploadId))))
+      setPendingRevoke(null)
+    } catch (revokeError) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to revoke shares", revokeError)
+      }
+      const apiError = toApiError(revokeError)
+      toast.error(apiError.message, { description: apiError.recovery })
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  const handleExtend = async (share: Share, expiresIn: number) => {
+    setExtendingId(share.upload_id)
+    try {
+      await extend(share.upload_id, expiresIn)
+      toast.success(`${share.file_name} now stays available longer`)
+    } catch (extendError) {
+      if (import.meta.env.DEV) {
+        console.error("Failed to extend share", extendError)
+      }
+      const apiError = toApiError(extendError)
+      toast.error(apiError.message, { description: apiError.recovery })
+    } finally {
+      setExtendingId(null)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 md:px-6">
+      <main className="flex flex-col items-center py-8 md:py-12 text-black dark:text-white">
+        <section className="w-full max-w-2xl space-y-6 animate-fade-in-up">
+          <div className="space-y-2">
+            <h1 className="merriweather-heading text-3xl font-semibold">My shares</h1>
+            <p className="metamorphous-regular text-sm text-black/70 dark:text-white/70">
+              Every link you created while signed in. Revoking a link stops it working for everyone straight away.
+            </p>
+          </div>
+
+          {!isSignedIn && (
+            <div className="flex flex-col items-center gap-3 rounded-2xl p-8 text-center ring-1 ring-black/10 dark:ring-white/10">
+              <Link2 className="h-8 w-8" />
+              <p className="text-sm text-black/70 dark:text-white/70">
+                Sign in to see and manage your shares. Links shared anonymously are listed on the History page.
+              </p>
+              <Link to="/sign-in" className="text-sm font-medium underline underline-offset-2">
+                Sign in
+              </Link>
+            </div>
+          )}
+
+          {isSignedIn && isLoading && shares.length === 0 && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-black/70 dark:text-white/70" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading your shares…
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          {isSignedIn && !isLoading && !error && shares.length === 0 && (
+            <div className="flex flex-col items-center gap-3 rounded-2xl p-8 text-center ring-1 ring-black/10 dark:ring-white/10">
+              <Link2 className="h-8 w-8" />
+              <p className="text-sm text-black/70 dark:text-white/70">You haven't shared anything yet.</p>
+              <Link to="/" className="text-sm font-medium underline underline-offset-2">
+                Share a file
+              </Link>
+            </div>
+          )}
+
+          {/* Bulk selection and revoke */}
+          {revocableIds.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                <span>{selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}</span>
+              </label>
+              <button
+                type="button"
+                onClick={() => setPendingRevoke(selectedIds)}
+                disabled={selectedIds.length === 0 || isRevoking}
+                className="inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium text-red-600 ring-1 ring-red-600/30 transition hover:bg-red-600/10 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Ban className="h-3.5 w-3.5" />
+                Revoke selected
+              </button>
+            </div>
+          )}
+
+          {pendingRevoke && (
+            <div className="space-y-3 rounded-2xl bg-red-600/5 p-4 text-sm ring-1 ring-red-600/30" role="alertdialog" aria-label="Confirm revoke">
+              <p>
+                {pendingRevoke.length === 1
+                  ? "Revoke this link? Anyone who has it will no longer be able to download the file."
+                  : `Revoke ${pendingRevoke.length} links? Anyone who has them will no longer be able to download the files.`}{" "}
+                This can't be undone.
+              </p>
+              <div className="flex gap-2 text-xs font-medium">
+                <button
+                  type="button"
+                  onClick={handleConfirmRevoke}
+                  disabled={isRevoking}
+                  className="inline-flex items-center gap-1.5 rounded-md bg-red-600 px-3 py-1.5 text-white transition hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {isRevoking && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                  Revoke
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPendingRevoke(null)}
+                  disabled={isRevoking}
+                  className="rounded-md border border-black/15 dark:border-white/20 px-3 py-1.5 transition hover:bg-black/5 dark:hover:bg-white/20"
+                >
+                  Keep
+                </button>
+              </div>
+            </div>
+          )}
+
+          <ul className="space-y-4" aria-live="polite">
+            {shares.map((share) => {
+              const state = shareStateOf(share, now)
+              const isRevoked = state === "revoked"
+              const link = copyableLinkFor(share)
+
+              return (
+                <li
+                  key={share.upload_id}
+                  className={`space-y-3 rounded-2xl bg-white/80 dark:bg-black/80 p-4 shadow-sm ring-1 ring-black/10 dark:ring-white/10 ${state === "active" ? "" : "opacity-70"}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex min-w-0 items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(share.upload_id)}
+                        onChange={() => toggleSelected(share.upload_id)}
+                        disabled={isRevoked}
+                        aria-label={`Select ${share.file_name}`}
+                        className="mt-1.5"
+                      />
+                      <div className="min-w-0 space-y-1">
+                        <h2 className="truncate font-semibold" title={share.file_name}>{share.file_name}</h2>
+                        <p className="text-xs text-black/60 dark:text-white/60">
+                          {formatBytes(share.total_size)} · Shared {new Date(share.created_at).toLocaleString()}
+                        </p>
+                        <p className="flex items-center gap-1 text-xs text-black/60 dark:text-white/60">
+                          {share.encrypted && <Lock className="h-3 w-3" aria-label="End-to-end encrypted" />}
+                          {describeDownloads(share)} · {describeExpiry(share, state)}
+                          {share.password_protected && " · Password protected"}
+                        </p>
+                      </div>
+                    </div>
+                    <span
+                      className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium uppercase tracking-wide ${state === "active" ? "bg-black/5 dark:bg-white/10 text-black/70 dark:text-white/70" : "bg-red-600/10 text-red-600"}`}
+                    >
+                      {SHARE_STATE_LABELS[state]}
+                    </span>
+                  </div>
+
+                  {!isRevoked && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs font-medium">
+                      <button
+                        type="button"
+                        onClick={() => link && handleCopy(link)}
+                        disabled={!link}
+                        title={link ? undefined : "The decryption key is only available on the device that uploaded it."}
+                        className="inline-flex items-center gap-1.5 rounded-md border border-black/15 dark:border-white/20 px-3 py-1.5 transition hover:bg-black/5 dark:hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                        Copy link
+                      </button>
+                      <select
+                        value=""
+                        onChange={(event) => handleExtend(share, Number(event.target.value))}
+                        disabled={extendingId === share.upload_id}
+                        aria-label={`Extend ${share.file_name}`}
+                        className="rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-1.5 disabled:opacity-50"
+                      >
+                        <option value="" disabled>
+                          {extendingId === share.upload_id ? "Extending…" : "Keep available for…"}
+                        </option>
+                        {LINK_EXPIRY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label} from now
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setPendingRevoke([share.upload_id])}
+                        disabled={isRevoking}
+                        className="ml-auto inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-red-600 transition hover:bg-red-600/10 disabled:cursor-not-allowed disabled:opacity-50"
+                        aria-label={`Revoke ${share.file_name}`}
+                      >
+                        <Ban className="h-3.5 w-3.5" />
+                        Revoke
+                      </button>
+                      {!link && (
+                        <p className="w-full font-normal text-black/60 dark:text-white/60">
+                          This file is end-to-end encrypted. Its key is only available on the device that uploaded it, so the link can't be copied here.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      </main>
+    </div>
+  )
+}
+
+export default Shares
@@ -0,0 +1,184 @@
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Link, useNavigate } from "react-router-dom"
+import { KeyRound, Loader2, LogIn } from "lucide-react"
+import { toast } from "sonner"
+
+import { toApiError } from "@/lib/api"
+import { useAuth } from "@/lib/hooks/useAuth"
+import {
+  apiKeyFormSchema,
+  signInRequestSchema,
+  type ApiKeyFormValues,
+  type SignInRequest,
+} from "@/lib/schema"
+
+/** Ways to authenticate offered on the page. */
+type SignInMethod = "password" | "apiKey"
+
+const inputClassName =
+  "w-full rounded-md border border-black/15 dark:border-white/20 bg-white/90 dark:bg-black/50 px-3 py-2 text-sm text-black dark:text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-black/40 dark:focus:ring-white/40"
+
+const submitClassName =
+  "inline-flex w-full items-center justify-center gap-2 rounded-[15px] bg-black dark:bg-white px-4 py-2 text-sm font-medium text-white dark:text-black transition hover:bg-black/85 dark:hover:bg-white/85 disabled:cursor-not-allowed disabled:opacity-60"
+
+/**
+ * Optional sign-in (`/sign-in`) with an email and password or an API key. Uploads work
+ * without an account; signing in attaches the credentials to every request from then on.
+ */
+function SignIn() {
+  const navigate = useNavigate()
+  const { credentials, signIn, signInWithApiKey, signOut } = useAuth()
+  const [method, setMethod] = useState<SignInMethod>("password")
+  const [signInError, setSignInError] = useState<string | null>(null)
+
+  const passwordForm = useForm<SignInRequest>({
+    resolver: zodResolver(signInRequestSchema),
+    defaultValues: { email: "", password: "" },
+  })
+
+  const apiKeyForm = useForm<ApiKeyFormValues>({
+    resolver: zodResolver(apiKeyFormSchema),
+    defaultValues: { apiKey: "" },
+  })
+
+  const handlePasswordSignIn = passwordForm.handleSubmit(async (values) => {
+    setSignInError(null)
+    try {
+      await signIn(values)
+      toast.success(`Signed in as ${values.email}`)
+      navigate("/")
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Sign-in failed", error)
+      }
+      const apiError = toApiError(error)
+      setSignInError(apiError.code === "unauthorized" ? "That email and password don't match an account." : apiError.message)
+    }
+  })
+
+  const handleApiKeySignIn = apiKeyForm.handleSubmit((values) => {
+    signInWithApiKey(values.apiKey)
+    toast.success("API key saved. It will be sent with every request.")
+    navigate("/")
+  })
+
+  const handleSignOut = () => {
+    signOut()
+    toast.success("Signed out. Uploads continue anonymously.")
+  }
+
+  const selectMethod = (next: SignInMethod) => {
+    setMethod(next)
+    setSignInError(null)
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 md:px-6">
+      <main className="flex flex-col items-center py-8 md:py-12 text-black dark:text-white">
+        <section className="w-full max-w-sm space-y-6 animate-fade-in-up">
+          <div className="space-y-2">
+            <h1 className="merriweather-heading text-3xl font-semibold">Sign in</h1>
+            <p className="metamorphous-regular text-sm text-black/70 dark:text-white/70">
+              An account is optional. You can keep sharing files without one.
+            </p>
+          </div>
+
+          {credentials && (
+            <div className="space-y-3 rounded-2xl p-4 text-sm ring-1 ring-black/10 dark:ring-white/10" role="status">
+              <p>
+                {credentials.kind === "token"
+                  ? `You're signed in as ${credentials.email}.`
+                  : "You're signed in with an API key."}
+              </p>
+              <button
+                type="button"
+                onClick={handleSignOut}
+                className="text-xs font-medium underline underline-offset-2 text-black/70 dark:text-white/70 hover:text-black dark:hover:text-white"
+              >
+                Sign out
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-2 text-xs font-medium" role="tablist" aria-label="Sign-in method">
+            {(
+              [
+                { value: "password", label: "Email", Icon: LogIn },
+                { value: "apiKey", label: "API key", Icon: KeyRound },
+              ] as const
+            ).map(({ value, label, Icon }) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={method === value}
+                onClick={() => selectMethod(value)}
+                className={`inline-flex flex-1 items-center justify-center gap-1.5 rounded-md border px-3 py-1.5 transition ${method === value ? "border-black dark:border-white" : "border-black/15 dark:border-white/20 hover:bg-black/5 dark:hover:bg-white/20"}`}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {method === "password" ? (
+            <form onSubmit={handlePasswordSignIn} className="space-y-4" noValidate>
+              <label className="block space-y-1 text-sm">
+                <span>Email</span>
+                <input type="email" autoComplete="email" {...passwordForm.register("email")} className={inputClassName} />
+              </label>
+              {passwordForm.formState.errors.email && (
+                <p className="text-xs text-red-600">{passwordForm.formState.errors.email.message}</p>
+              )}
+              <label className="block space-y-1 text-sm">
+                <span>Password</span>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  {...passwordForm.register("password")}
+                  className={inputClassName}
+                />
+              </label>
+              {passwordForm.formState.errors.password && (
+                <p className="text-xs text-red-600">{passwordForm.formState.errors.password.message}</p>
+              )}
+              {signInError && (
+                <p className="text-sm text-red-600" role="alert">
+                  {signInError}
+                </p>
+              )}
+              <button type="submit" disabled={passwordForm.formState.isSubmitting} className={submitClassName}>
+                {passwordForm.formState.isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Sign in
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleApiKeySignIn} className="space-y-4" noValidate>
+              <label className="block space-y-1 text-sm">
+                <span>API key</span>
+                <input type="password" autoComplete="off" {...apiKeyForm.register("apiKey")} className={inputClassName} />
+              </label>
+              {apiKeyForm.formState.errors.apiKey && (
+                <p className="text-xs text-red-600">{apiKeyForm.formState.errors.apiKey.message}</p>
+              )}
+              <p className="text-xs text-black/60 dark:text-white/60">
+                The key is stored in this browser and sent with every request until you sign out.
+              </p>
+              <button type="submit" className={submitClassName}>
+                Use API key
+              </button>
+            </form>
+          )}
+
+          <Link to="/" className="block text-center text-sm font-medium underline underline-offset-2">
+            Continue without an account
+          </Link>
+        </section>
+      </main>
+    </div>
+  )
+}
+
+export default SignIn
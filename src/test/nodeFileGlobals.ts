@@ -0,0 +1,24 @@
+import { Blob as NodeBlob, File as NodeFile } from "node:buffer"
+import { afterAll, beforeAll } from "vitest"
+
+/**
+ * Swaps jsdom's `Blob`, `File` and `FormData` for Node's own while the calling test file runs,
+ * for tests that read file contents or whose uploads go through the stub backend.
+ *
+ * jsdom's versions don't hold up there. A jsdom `Blob` has no `arrayBuffer()`, MSW's request
+ * interceptor can't read one either, so a chunk body arrives as the string "[object Blob]", and jsdom's `FormData`
+ * stringifies any `File` that isn't its own. Node doesn't export its `FormData`, but the
+ * `Response` from fetch, which jsdom leaves alone, returns one from `formData()`.
+ */
+export function installNodeFileGlobals() {
+	const jsdomGlobals = { Blob: globalThis.Blob, File: globalThis.File, FormData: globalThis.FormData }
+
+	beforeAll(async () => {
+		const NodeFormData = (await new Response(new URLSearchParams()).formData()).constructor
+		Object.assign(globalThis, { Blob: NodeBlob, File: NodeFile, FormData: NodeFormData })
+	})
+
+	afterAll(() => {
+		Object.assign(globalThis, jsdomGlobals)
+	})
+}
@@ -0,0 +1,11 @@
+import { setupServer } from "msw/node"
+
+import { createMockBackend } from "../mocks/mockBackend"
+
+/**
+ * Stub backend shared by the tests: the in-memory mock with no latency or faults unless a
+ * test configures some. It is reset after every test.
+ */
+export const mockBackend = createMockBackend()
+
+export const server = setupServer(...mockBackend.handlers)
@@ -0,0 +1,21 @@
+import "@testing-library/jest-dom/vitest"
+import "fake-indexeddb/auto"
+import { cleanup } from "@testing-library/react"
+import { afterAll, afterEach, beforeAll } from "vitest"
+
+import { mockBackend, server } from "./server"
+
+beforeAll(() => {
+	server.listen({ onUnhandledRequest: "error" })
+})
+
+afterEach(() => {
+	cleanup()
+	server.resetHandlers()
+	mockBackend.reset()
+	window.localStorage.clear()
+})
+
+afterAll(() => {
+	server.close()
+})